@@ -0,0 +1,34 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { PDF_FONT_FILES } from "@/lib/exporters/pdfFonts";
+
+type RouteContext = { params: Promise<{ file: string }> };
+
+// The TrueType fonts the PDF exports embed for non-Latin guides, served from
+// their npm packages. Only the files in PDF_FONT_FILES are served.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { file } = await params;
+  if (!Object.hasOwn(PDF_FONT_FILES, file)) {
+    return NextResponse.json({ error: "Font not found" }, { status: 404 });
+  }
+
+  try {
+    const data = await readFile(path.join(process.cwd(), "node_modules", PDF_FONT_FILES[file]));
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "Content-Type": "font/ttf",
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Server error in /api/fonts/[file]:", error);
+    return NextResponse.json(
+      {
+        error: "Server error in /api/fonts/[file]",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
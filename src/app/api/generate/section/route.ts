@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCitations } from "@/lib/citations";
+import { validateInputText } from "@/lib/generation";
+import {
+  MAX_MORE_QUESTIONS,
+  validateGenerationOptions,
+} from "@/lib/generationOptions";
+import { ProviderConfigError, getProvider } from "@/lib/llm";
+import { GenerationError } from "@/lib/modelRequest";
+import {
+  expandConcept,
+  generateMoreQuestions,
+  regenerateOverview,
+} from "@/lib/sectionActions";
+import { validateStudyGuide } from "@/lib/studyGuide";
+
+const ACTIONS = ["summary", "detailed_summary", "more_questions", "expand_concept"];
+
+// Updates one part of an existing guide: rewrites the summary or detailed
+// summary, adds practice questions, or expands a concept. The current guide
+// is sent along so new content doesn't repeat it.
+export async function POST(req: NextRequest) {
+  try {
+    const { action, inputText, guide, options, count, term } = await req.json();
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `"action" must be one of ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const inputError = validateInputText(inputText);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const parsedGuide = validateStudyGuide(guide);
+    if (!parsedGuide.ok) {
+      return NextResponse.json(
+        { error: "Invalid study guide", details: parsedGuide.errors },
+        { status: 400 }
+      );
+    }
+
+    const parsedOptions = validateGenerationOptions(options);
+    if (!parsedOptions.ok) {
+      return NextResponse.json(
+        { error: "Invalid generation options", details: parsedOptions.errors },
+        { status: 400 }
+      );
+    }
+
+    if (
+      action === "more_questions" &&
+      (!Number.isInteger(count) || count < 1 || count > MAX_MORE_QUESTIONS)
+    ) {
+      return NextResponse.json(
+        { error: `"count" must be a whole number from 1 to ${MAX_MORE_QUESTIONS}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === "expand_concept" && (typeof term !== "string" || !term.trim())) {
+      return NextResponse.json(
+        { error: '"term" must name a concept of the guide' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const provider = getProvider();
+      // Check the client's quotes again rather than trusting its flags
+      const current = verifyCitations(parsedGuide.value, inputText);
+      const settings = parsedOptions.value;
+
+      if (action === "summary" || action === "detailed_summary") {
+        const text = await regenerateOverview(
+          provider,
+          inputText,
+          current,
+          action,
+          settings,
+          req.signal
+        );
+        return NextResponse.json({ [action]: text });
+      }
+
+      if (action === "more_questions") {
+        const questions = await generateMoreQuestions(
+          provider,
+          inputText,
+          current,
+          count,
+          settings,
+          req.signal
+        );
+        return NextResponse.json({ questions });
+      }
+
+      const concept = await expandConcept(
+        provider,
+        inputText,
+        current,
+        term,
+        settings,
+        req.signal
+      );
+      if (!concept) {
+        return NextResponse.json(
+          { error: `No concept named "${term}" in this guide` },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ concept });
+    } catch (err) {
+      if (err instanceof ProviderConfigError || err instanceof GenerationError) {
+        return NextResponse.json({ error: err.message }, { status: 500 });
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    console.error("Server error in /api/generate/section:", error);
+    return NextResponse.json(
+      {
+        error: "Server error in /api/generate/section",
+        details: error?.message || String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { GenerationStreamEvent } from "@/lib/generation";
+import { streamStudyGuide, validateInputText } from "@/lib/generation";
+import { validateGenerationOptions } from "@/lib/generationOptions";
+import { LLMProvider, ProviderConfigError, getProvider } from "@/lib/llm";
+import { GenerationError } from "@/lib/modelRequest";
+import { encodeEvent } from "@/lib/sse";
+
+// Streaming counterpart of /api/generate. Emits server-sent events:
+//   section  { key, value }       a finished guide section
+//   progress { completed, total } chunk progress for long inputs
+//   done     { ...guide, chunks } the complete, normalized guide
+//   error    { error }            generation failed
+export async function POST(req: NextRequest) {
+  let inputText: unknown;
+  let options: unknown;
+  try {
+    ({ inputText, options } = await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inputError = validateInputText(inputText);
+  if (inputError) {
+    return NextResponse.json({ error: inputError }, { status: 400 });
+  }
+
+  const parsedOptions = validateGenerationOptions(options);
+  if (!parsedOptions.ok) {
+    return NextResponse.json(
+      { error: "Invalid generation options", details: parsedOptions.errors },
+      { status: 400 }
+    );
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = getProvider();
+  } catch (err) {
+    if (err instanceof ProviderConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    throw err;
+  }
+
+  // Aborted when the client disconnects or cancels the request
+  const controller = new AbortController();
+  req.signal.addEventListener("abort", () => controller.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(sink) {
+      const send = ({ event, data }: GenerationStreamEvent) => {
+        if (!controller.signal.aborted) sink.enqueue(encodeEvent(event, data));
+      };
+
+      try {
+        const result = await streamStudyGuide(provider, inputText as string, parsedOptions.value, {
+          signal: controller.signal,
+          onSection: (key, value) => send({ event: "section", data: { key, value } }),
+          onProgress: (completed, total) =>
+            send({ event: "progress", data: { completed, total } }),
+        });
+        send({ event: "done", data: result });
+      } catch (error: any) {
+        if (!controller.signal.aborted) {
+          console.error("Server error in /api/generate/stream:", error);
+          send({
+            event: "error",
+            data: {
+              error:
+                error instanceof GenerationError
+                  ? error.message
+                  : "Server error in /api/generate/stream",
+            },
+          });
+        }
+      } finally {
+        try {
+          sink.close();
+        } catch {
+          // Already closed by a cancelled client
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
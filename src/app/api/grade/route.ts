@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_ANSWER_CHARS, gradeShortAnswer } from "@/lib/grading";
+import { ProviderConfigError, getProvider } from "@/lib/llm";
+import { GenerationError } from "@/lib/modelRequest";
+import { validateSection } from "@/lib/studyGuide";
+
+// Grades a free-text answer to a short answer question. Multiple choice and
+// true/false questions are graded in the browser.
+export async function POST(req: NextRequest) {
+  try {
+    const { question, answer } = await req.json();
+
+    const checked = validateSection("questions", [question]);
+    if (!checked.ok) {
+      return NextResponse.json(
+        { error: "Invalid question", details: checked.errors },
+        { status: 400 }
+      );
+    }
+
+    const [parsed] = checked.value;
+    if (parsed.type !== "short_answer") {
+      return NextResponse.json(
+        { error: "Only short answer questions are graded by the server" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof answer !== "string" || answer.trim().length === 0) {
+      return NextResponse.json(
+        { error: "Answer cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    if (answer.length > MAX_ANSWER_CHARS) {
+      return NextResponse.json(
+        {
+          error: `Answer is too long. Please limit to ${MAX_ANSWER_CHARS.toLocaleString("en-US")} characters.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const provider = getProvider();
+      const result = await gradeShortAnswer(provider, parsed, answer.trim(), req.signal);
+      return NextResponse.json(result);
+    } catch (err) {
+      if (err instanceof ProviderConfigError || err instanceof GenerationError) {
+        return NextResponse.json({ error: err.message }, { status: 500 });
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    console.error("Server error in /api/grade:", error);
+    return NextResponse.json(
+      {
+        error: "Server error in /api/grade",
+        details: error?.message || String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
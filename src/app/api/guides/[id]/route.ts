@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSharedGuide, getSharedGuide } from "@/lib/sharedGuides";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const shared = getSharedGuide(id);
+
+    if (!shared) {
+      return NextResponse.json(
+        { error: "Guide not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(shared);
+  } catch (error: any) {
+    console.error("Server error in /api/guides/[id]:", error);
+    return NextResponse.json(
+      {
+        error: "Server error in /api/guides/[id]",
+        details: error?.message || String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The creator's delete token travels in a header so it never ends up in
+// access logs alongside the URL.
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const token = req.headers.get("x-delete-token");
+
+    if (!token) {
+      return NextResponse.json(
+        { error: "Missing X-Delete-Token header" },
+        { status: 401 }
+      );
+    }
+
+    const result = deleteSharedGuide(id, token);
+
+    if (result === "not_found") {
+      return NextResponse.json({ error: "Guide not found" }, { status: 404 });
+    }
+    if (result === "forbidden") {
+      return NextResponse.json(
+        { error: "Delete token does not match" },
+        { status: 403 }
+      );
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    console.error("Server error in /api/guides/[id]:", error);
+    return NextResponse.json(
+      {
+        error: "Server error in /api/guides/[id]",
+        details: error?.message || String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
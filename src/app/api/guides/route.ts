@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearVerification } from "@/lib/citations";
+import type { ShareExpiryDays } from "@/lib/sharedGuides";
+import {
+  DEFAULT_SHARE_EXPIRY_DAYS,
+  MAX_SHARED_TITLE_LENGTH,
+  MAX_SHARE_BODY_BYTES,
+  SHARE_EXPIRY_DAYS,
+  createSharedGuide,
+  sharedGuideLimitError,
+} from "@/lib/sharedGuides";
+import { validateStudyGuide } from "@/lib/studyGuide";
+
+function isShareExpiry(value: unknown): value is ShareExpiryDays | null {
+  return value === null || SHARE_EXPIRY_DAYS.includes(value as ShareExpiryDays);
+}
+
+function tooLarge() {
+  return NextResponse.json(
+    { error: `Guide is too large to share (limit ${MAX_SHARE_BODY_BYTES / 1024} KB)` },
+    { status: 413 }
+  );
+}
+
+// Saves a guide for sharing and returns its short ID plus a delete token the
+// creator keeps to remove it later. Anyone can call this, so the body size,
+// title and item counts are capped, and links expire unless "never" is chosen.
+export async function POST(req: NextRequest) {
+  try {
+    if (Number(req.headers.get("content-length")) > MAX_SHARE_BODY_BYTES) {
+      return tooLarge();
+    }
+    const raw = await req.text();
+    if (Buffer.byteLength(raw) > MAX_SHARE_BODY_BYTES) {
+      return tooLarge();
+    }
+
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const { title, guide, expiresInDays = DEFAULT_SHARE_EXPIRY_DAYS } = body ?? {};
+
+    if (typeof title !== "string") {
+      return NextResponse.json({ error: "Missing title" }, { status: 400 });
+    }
+
+    if (title.trim().length > MAX_SHARED_TITLE_LENGTH) {
+      return NextResponse.json(
+        { error: `title may be at most ${MAX_SHARED_TITLE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isShareExpiry(expiresInDays)) {
+      return NextResponse.json(
+        {
+          error: `expiresInDays must be one of ${SHARE_EXPIRY_DAYS.join(", ")} or null`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const checked = validateStudyGuide(guide);
+    if (!checked.ok) {
+      return NextResponse.json(
+        { error: "Invalid study guide", details: checked.errors },
+        { status: 400 }
+      );
+    }
+
+    const limitError = sharedGuideLimitError(checked.value);
+    if (limitError) {
+      return NextResponse.json(
+        { error: "Guide is too large to share", details: [limitError] },
+        { status: 413 }
+      );
+    }
+
+    const created = createSharedGuide({
+      title,
+      // The material isn't sent along, so quotes can't be re-checked here
+      guide: clearVerification(checked.value),
+      expiresInDays,
+    });
+
+    return NextResponse.json(
+      { ...created, url: `/guide/${created.id}` },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Server error in /api/guides:", error);
+    return NextResponse.json(
+      {
+        error: "Server error in /api/guides",
+        details: error?.message || String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { baseFontStack, defaultConfig as config } from "@/lib/appConfig";
+import { getSharedGuide } from "@/lib/sharedGuides";
+import GuidePanel from "@/components/GuidePanel";
+import Markdown from "@/components/Markdown";
+import GuideExtras from "@/components/GuideExtras";
+import ConceptExpansion from "@/components/ConceptExpansion";
+import PracticeQuestionCard from "@/components/PracticeQuestionCard";
+import SourceTag from "@/components/SourceTag";
+import CitationTag from "@/components/CitationTag";
+import SharedGuideActions from "@/components/SharedGuideActions";
+
+type PageProps = { params: Promise<{ id: string }> };
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { id } = await params;
+  const shared = getSharedGuide(id);
+  return {
+    title: shared
+      ? `${shared.title} - ${config.app_title}`
+      : `Guide not found - ${config.app_title}`,
+  };
+}
+
+// Read-only view of a shared study guide, laid out like the results panel
+// of the generator.
+export default async function SharedGuidePage({ params }: PageProps) {
+  const { id } = await params;
+  const shared = getSharedGuide(id);
+  if (!shared) notFound();
+
+  const { guide } = shared;
+
+  return (
+    <div
+      className="min-h-screen antialiased"
+      style={{
+        backgroundColor: config.background_color,
+        color: config.text_color,
+        fontFamily: `${config.font_family}, ${baseFontStack}`,
+        fontSize: config.font_size,
+      }}
+    >
+      <div className="bg-orbit" />
+
+      <div className="relative z-10 flex min-h-screen flex-col">
+        <header className="border-b border-slate-800/60 bg-slate-950/60 shadow-sm backdrop-blur-xl">
+          <div className="mx-auto flex max-w-3xl items-center justify-between gap-3 px-4 py-3 sm:px-6 sm:py-4">
+            <Link href="/" className="flex items-center gap-3">
+              <div
+                className="flex h-9 w-9 items-center justify-center rounded-xl shadow-lg shadow-indigo-500/30 ring-1 ring-indigo-400/60"
+                style={{
+                  background: `conic-gradient(from 210deg, ${config.primary_color}, ${config.secondary_color}, ${config.primary_color})`,
+                }}
+              >
+                <span className="text-base font-black text-white">A</span>
+              </div>
+              <span className="text-sm font-semibold tracking-tight text-slate-50 sm:text-base">
+                {config.app_title}
+              </span>
+            </Link>
+            <SharedGuideActions id={shared.id} />
+          </div>
+        </header>
+
+        <main className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-4 px-4 py-6 sm:px-6 sm:py-8 lg:gap-5">
+          <div>
+            <h1 className="text-lg font-semibold tracking-tight text-slate-50 sm:text-xl">
+              {shared.title}
+            </h1>
+            <p className="text-[11px] text-slate-400 sm:text-xs">
+              Shared study guide · read-only ·{" "}
+              {new Date(shared.createdAt).toLocaleDateString()}
+              {shared.expiresAt &&
+                ` · expires ${new Date(shared.expiresAt).toLocaleDateString()}`}
+            </p>
+          </div>
+
+          <GuidePanel
+            icon="📌"
+            iconColor={config.primary_color}
+            heading={config.summary_heading}
+            label="Overview"
+          >
+            <Markdown
+              text={guide.summary}
+              className="text-xs leading-relaxed text-slate-200 sm:text-sm"
+            />
+          </GuidePanel>
+
+          <GuidePanel
+            icon="📚"
+            iconColor={config.secondary_color}
+            heading={config.concepts_heading}
+            label="Definitions"
+          >
+            {guide.concepts.length === 0 ? (
+              <p className="text-xs text-slate-300 sm:text-sm">
+                No key concepts in this guide.
+              </p>
+            ) : (
+              <div className="flex flex-col gap-3">
+                {guide.concepts.map((item, idx) => (
+                  <div
+                    key={idx}
+                    className="rounded-xl border border-slate-700/80 bg-slate-900/80 px-3 py-2.5"
+                    style={{
+                      borderLeftWidth: 3,
+                      borderLeftColor: config.primary_color,
+                    }}
+                  >
+                    <div className="mb-0.5 flex flex-wrap items-center gap-2 text-xs font-semibold text-slate-50 sm:text-sm">
+                      <span>{item.term}</span>
+                      <SourceTag source={item.source} page={item.page} />
+                      <CitationTag quote={item.quote} verified={item.verified} />
+                    </div>
+                    <Markdown
+                      text={item.def}
+                      className="text-[11px] text-slate-300 sm:text-xs"
+                    />
+                    <ConceptExpansion concept={item} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </GuidePanel>
+
+          <GuideExtras extras={guide.extras} accentColor={config.secondary_color} />
+
+          <GuidePanel
+            icon="❓"
+            iconColor={config.primary_color}
+            heading={config.questions_heading}
+            label="Active recall"
+          >
+            {guide.questions.length === 0 ? (
+              <p className="text-xs text-slate-300 sm:text-sm">
+                No practice questions in this guide.
+              </p>
+            ) : (
+              <ol className="flex flex-col gap-2.5">
+                {guide.questions.map((q, idx) => (
+                  <PracticeQuestionCard
+                    key={`${idx}-${q.prompt}`}
+                    question={q}
+                    index={idx}
+                  />
+                ))}
+              </ol>
+            )}
+          </GuidePanel>
+
+          <GuidePanel
+            icon="📝"
+            iconColor={config.surface_color}
+            heading={config.detailed_summary_heading}
+            label="In-depth review"
+          >
+            <Markdown
+              text={guide.detailed_summary}
+              className="text-xs leading-relaxed text-slate-200 sm:text-sm"
+            />
+          </GuidePanel>
+
+          <p className="text-center text-[11px] text-slate-500">
+            Want your own?{" "}
+            <Link href="/" className="text-indigo-300 hover:underline">
+              Generate a study guide with {config.app_title}
+            </Link>
+          </p>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,47 +1,138 @@
 "use client";
 
-import { useState, KeyboardEvent, useRef, DragEvent } from "react";
-import mammoth from "mammoth";
-
-// Dynamically import PDF.js only on client side
-let pdfjsLib: any = null;
-
-const defaultConfig = {
-  background_color: "#050816",
-  surface_color: "#050816",
-  text_color: "#e2e8f0",
-  primary_color: "#6366f1",
-  secondary_color: "#8b5cf6",
-  font_family: "Inter",
-  font_size: 16,
-  app_title: "examAce",
-  tagline: "AI Study Guide Generator",
-  input_placeholder: "Paste your lecture notes or textbook content here...",
-  generate_button_text: "Generate Study Guide",
-  summary_heading: "Summary",
-  concepts_heading: "Key Concepts & Definitions",
-  questions_heading: "Practice Questions",
-  detailed_summary_heading: "Detailed Summary",
-};
+import { useState, KeyboardEvent, useRef, DragEvent, useEffect, useReducer } from "react";
+import { MAX_INPUT_CHARS } from "@/lib/chunking";
+import type { GenerationStreamEvent } from "@/lib/generation";
+import { readServerEvents } from "@/lib/sse";
+import type { Concept, PracticeQuestion, StudyGuide } from "@/lib/studyGuide";
+import { isStudyGuideSection, validateSection } from "@/lib/studyGuide";
+import type { GuideEdit } from "@/lib/guideHistory";
+import { EMPTY_GUIDE, EMPTY_HISTORY, guideHistoryReducer } from "@/lib/guideHistory";
+import PracticeQuestionCard from "@/components/PracticeQuestionCard";
+import ItemControls from "@/components/ItemControls";
+import TextEditor from "@/components/TextEditor";
+import ConceptEditor from "@/components/ConceptEditor";
+import QuestionEditor from "@/components/QuestionEditor";
+import SourceTag from "@/components/SourceTag";
+import CitationTag from "@/components/CitationTag";
+import SourceViewer from "@/components/SourceViewer";
+import QuizMode from "@/components/QuizMode";
+import FlashcardMode from "@/components/FlashcardMode";
+import { dueCards, loadDeck } from "@/lib/flashcardStore";
+import { buildAnkiImport, buildQuizletImport } from "@/lib/flashcardExport";
+import { EXPORTERS, ExportError, exporterFileName, findExporter } from "@/lib/exporters";
+import { exportFileName } from "@/lib/exporters/common";
+import { buildGuideText } from "@/lib/exporters/text";
+import {
+  GuideImportError,
+  isGuideImportCandidate,
+  parseGuideImport,
+} from "@/lib/guideImport";
+import LibrarySidebar from "@/components/LibrarySidebar";
+import type { SavedGuide } from "@/lib/guideLibrary";
+import {
+  defaultGuideTitle,
+  deleteGuide,
+  listGuides,
+  renameGuide,
+  saveGuide,
+  updateGuide,
+} from "@/lib/guideLibrary";
+import { baseFontStack, defaultConfig } from "@/lib/appConfig";
+import GuidePanel from "@/components/GuidePanel";
+import Markdown from "@/components/Markdown";
+import GuideExtras from "@/components/GuideExtras";
+import ConceptExpansion from "@/components/ConceptExpansion";
+import ShareDialog from "@/components/ShareDialog";
+import SourceList from "@/components/SourceList";
+import type { SourceFile } from "@/lib/sources";
+import {
+  PASTED_NOTES_SOURCE,
+  combineSources,
+  describeSources,
+} from "@/lib/sources";
+import { extractInWorker } from "@/lib/extractors/client";
+import GenerationSettings from "@/components/GenerationSettings";
+import type { GenerationOptions } from "@/lib/generationOptions";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  MAX_MORE_QUESTIONS,
+  loadGenerationOptions,
+  saveGenerationOptions,
+} from "@/lib/generationOptions";
+
+const MORE_QUESTION_COUNTS = [3, 5, MAX_MORE_QUESTIONS];
 
 export default function Page() {
   const [config] = useState(defaultConfig);
   const [inputText, setInputText] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [showResults, setShowResults] = useState(false);
-  const [summary, setSummary] = useState("");
-  const [concepts, setConcepts] = useState<{ term: string; def: string }[]>([]);
-  const [questions, setQuestions] = useState<string[]>([]);
-  const [detailedSummary, setDetailedSummary] = useState("");
+  // The guide in the results, with undo/redo of edits (see guideHistory.ts)
+  const [history, dispatchGuide] = useReducer(guideHistoryReducer, EMPTY_HISTORY);
+  const [chunkCount, setChunkCount] = useState(0);
+  const [chunkProgress, setChunkProgress] = useState<{
+    completed: number;
+    total: number;
+  } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isQuizActive, setIsQuizActive] = useState(false);
+  const [highlightedConcept, setHighlightedConcept] = useState<number | null>(
+    null
+  );
+  const [isFlashcardsOpen, setIsFlashcardsOpen] = useState(false);
+  const [dueFlashcardCount, setDueFlashcardCount] = useState(0);
+  const [includeQuestionCards, setIncludeQuestionCards] = useState(false);
+  const [sources, setSources] = useState<SourceFile[]>([]);
+  const [savedGuides, setSavedGuides] = useState<SavedGuide[]>([]);
+  const [activeGuideId, setActiveGuideId] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(
+    DEFAULT_GENERATION_OPTIONS
+  );
+  // Which section update is running ("summary", "concept-2", ...), one at a time
+  const [sectionBusy, setSectionBusy] = useState<string | null>(null);
+  const [moreQuestionCount, setMoreQuestionCount] = useState(5);
+  const [exportFormat, setExportFormat] = useState(EXPORTERS[0].id);
+  const [isExporting, setIsExporting] = useState(false);
+  // Item being edited inline ("summary", "concept-2", "question-new", ...)
+  const [editing, setEditing] = useState<string | null>(null);
+  // Supporting quote shown highlighted in the source view, if open
+  const [sourceQuote, setSourceQuote] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
+  // One per queued or reading file, so removing it cancels its extraction
+  const extractionAbortRefs = useRef(new Map<string, AbortController>());
 
-  const baseFontStack =
-    '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
   const fontFamily = `${config.font_family}, ${baseFontStack}`;
   const baseSize = config.font_size;
 
+  // Uploaded files plus the textarea (as "Pasted notes") make up the material
+  const readySources = sources.filter((s) => s.status === "ready");
+  const isReadingSources = sources.some(
+    (s) => s.status === "queued" || s.status === "reading"
+  );
+  const sourceFileName = describeSources(readySources.map((s) => s.name));
+  const material =
+    readySources.length === 0
+      ? inputText.trim()
+      : combineSources([
+          { name: PASTED_NOTES_SOURCE, text: inputText },
+          ...readySources,
+        ]);
+
+  // Edits included: exports, sharing and section actions all use this
+  const currentGuide = history.present;
+  const {
+    summary,
+    detailed_summary: detailedSummary,
+    concepts,
+    questions,
+    extras,
+  } = currentGuide;
+
   const {
     background_color: bgColor,
     surface_color: surfaceColor,
@@ -50,50 +141,287 @@ export default function Page() {
     secondary_color: secondaryColor,
   } = config;
 
+  // Flashcard schedules live in localStorage, so read them after mount
+  useEffect(() => {
+    if (!isFlashcardsOpen) {
+      setDueFlashcardCount(dueCards(loadDeck()).length);
+    }
+  }, [isFlashcardsOpen]);
+
+  const refreshLibrary = async () => {
+    try {
+      setSavedGuides(await listGuides());
+    } catch (err) {
+      console.error("Failed to load library:", err);
+    }
+  };
+
+  useEffect(() => {
+    refreshLibrary();
+  }, []);
+
+  // Saved in localStorage, so read after mount like the flashcard deck
+  useEffect(() => {
+    setGenerationOptions(loadGenerationOptions());
+  }, []);
+
+  const handleGenerationOptionsChange = (options: GenerationOptions) => {
+    setGenerationOptions(options);
+    saveGenerationOptions(options);
+  };
+
+  // Shows a new, opened or imported guide; earlier edits can't be undone
+  const applyGuide = (guide: StudyGuide) => {
+    dispatchGuide({ type: "load", guide });
+    setEditing(null);
+  };
+
+  // Every finished generation is saved to the library automatically
+  const persistGuide = async (guide: StudyGuide, text: string) => {
+    try {
+      const saved = await saveGuide({
+        title: defaultGuideTitle(text, sourceFileName),
+        sourceFileName,
+        inputText: text,
+        guide,
+      });
+      setActiveGuideId(saved.id);
+      await refreshLibrary();
+    } catch (err) {
+      console.error("Failed to save guide to library:", err);
+    }
+  };
+
+  const handleOpenGuide = (saved: SavedGuide) => {
+    if (isGenerating) return;
+    applyGuide(saved.guide);
+    setInputText(saved.inputText);
+    setSources([]);
+    setActiveGuideId(saved.id);
+    setChunkCount(0);
+    setError(null);
+    setIsQuizActive(false);
+    setShowResults(true);
+    setIsLibraryOpen(false);
+  };
+
+  const handleRenameGuide = async (id: string, title: string) => {
+    try {
+      await renameGuide(id, title);
+      await refreshLibrary();
+    } catch (err) {
+      console.error("Failed to rename guide:", err);
+    }
+  };
+
+  const handleDeleteGuide = async (id: string) => {
+    try {
+      await deleteGuide(id);
+      if (id === activeGuideId) setActiveGuideId(null);
+      await refreshLibrary();
+    } catch (err) {
+      console.error("Failed to delete guide:", err);
+    }
+  };
+
   const handleGenerate = async () => {
-    const trimmed = inputText.trim();
-    if (!trimmed || isGenerating) return;
+    const trimmed = material;
+    if (!trimmed || isGenerating || isReadingSources) return;
+
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
 
     setIsGenerating(true);
     setShowResults(true);
     setError(null);
+    applyGuide(EMPTY_GUIDE);
+    setChunkCount(0);
+    setChunkProgress(null);
+    setIsQuizActive(false);
+    setActiveGuideId(null);
 
     try {
-      const res = await fetch("/api/generate", {
+      const res = await fetch("/api/generate/stream", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ inputText: trimmed }),
+        body: JSON.stringify({ inputText: trimmed, options: generationOptions }),
+        signal: controller.signal,
       });
 
       if (!res.ok) {
         const text = await res.text();
         console.error("Failed to generate:", text);
         setError("Something went wrong generating your study guide.");
-        setIsGenerating(false);
         return;
       }
 
-      const data = (await res.json()) as {
-        summary: string;
-        detailed_summary?: string;
-        concepts: { term: string; def: string }[];
-        questions: string[];
-      };
-
-      setSummary(data.summary || "");
-      setConcepts(data.concepts || []);
-      setQuestions(data.questions || []);
-      setDetailedSummary(data.detailed_summary || "");
+      // Sections arrive as the model finishes them; "done" carries the
+      // final normalized guide and replaces anything streamed earlier.
+      await readServerEvents<GenerationStreamEvent>(res, (message) => {
+        if (message.event === "section") {
+          applySection(message.data.key, message.data.value);
+        } else if (message.event === "progress") {
+          setChunkProgress(message.data);
+        } else if (message.event === "done") {
+          const { chunks, ...guide } = message.data;
+          applyGuide(guide);
+          setChunkCount(chunks || 1);
+          persistGuide(guide, trimmed);
+        } else if (message.event === "error") {
+          console.error("Failed to generate:", message.data);
+          setError(message.data?.error || "Something went wrong generating your study guide.");
+        }
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setError("Generation cancelled.");
+      } else {
+        console.error(err);
+        setError("Network error while talking to the AI.");
+      }
+    } finally {
+      generateAbortRef.current = null;
+      setChunkProgress(null);
+      setIsGenerating(false);
+    }
+  };
+
+  const applySection = (key: string, value: unknown) => {
+    if (!isStudyGuideSection(key)) return;
+    const section = validateSection(key, value);
+    if (!section.ok) return;
+
+    dispatchGuide({ type: "stream", key, value: section.value });
+  };
+
+  // --------- SECTION ACTIONS ----------
+
+  // Rewrites or extends one section of the current guide. The server gets the
+  // whole guide so new content doesn't repeat what is already there.
+  const requestSectionUpdate = async <T,>(
+    busyKey: string,
+    body: Record<string, unknown>,
+    apply: (data: T) => StudyGuide
+  ) => {
+    if (sectionBusy || isGenerating) return;
+    setSectionBusy(busyKey);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/generate/section", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...body,
+          inputText: material,
+          guide: currentGuide,
+          options: generationOptions,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        console.error("Failed to update section:", data);
+        setError(data?.error || "Something went wrong updating your study guide.");
+        return;
+      }
+
+      dispatchGuide({ type: "replace", guide: apply(data) });
     } catch (err) {
       console.error(err);
       setError("Network error while talking to the AI.");
     } finally {
-      setIsGenerating(false);
+      setSectionBusy(null);
     }
   };
 
+  const handleRegenerateOverview = (section: "summary" | "detailed_summary") =>
+    requestSectionUpdate<Record<typeof section, string>>(
+      section,
+      { action: section },
+      (data) => ({ ...currentGuide, [section]: data[section] })
+    );
+
+  const handleMoreQuestions = () =>
+    requestSectionUpdate<{ questions: PracticeQuestion[] }>(
+      "more_questions",
+      { action: "more_questions", count: moreQuestionCount },
+      (data) => ({ ...currentGuide, questions: [...questions, ...data.questions] })
+    );
+
+  const handleExpandConcept = (index: number) =>
+    requestSectionUpdate<{ concept: Concept }>(
+      `concept-${index}`,
+      { action: "expand_concept", term: concepts[index].term },
+      (data) => ({
+        ...currentGuide,
+        concepts: concepts.map((c, i) => (i === index ? data.concept : c)),
+      })
+    );
+
+  // --------- EDITING ----------
+
+  // Edits and undo could drop the question a running quiz is showing
+  const canEdit = !isGenerating && !sectionBusy && !isQuizActive;
+
+  const handleEdit = (edit: GuideEdit) => {
+    if (!canEdit) return;
+    dispatchGuide({ type: "edit", edit });
+    setEditing(null);
+  };
+
+  const handleUndo = () => {
+    dispatchGuide({ type: "undo" });
+    setEditing(null);
+  };
+
+  const handleRedo = () => {
+    dispatchGuide({ type: "redo" });
+    setEditing(null);
+  };
+
+  // Edits, undo/redo and section actions are saved to the library entry
+  useEffect(() => {
+    if (history.revision === 0 || !activeGuideId) return;
+    updateGuide(activeGuideId, history.present)
+      .then(refreshLibrary)
+      .catch((err) => console.error("Failed to save edited guide:", err));
+  }, [history.revision]);
+
+  // Cmd/Ctrl+Z and Cmd/Ctrl+Shift+Z, unless a text field has focus
+  useEffect(() => {
+    const onKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== "z") return;
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select, [contenteditable]")) return;
+      if (!canEdit) return;
+      e.preventDefault();
+      dispatchGuide({ type: e.shiftKey ? "redo" : "undo" });
+      setEditing(null);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [canEdit]);
+
+  const handleCancelGenerate = () => {
+    generateAbortRef.current?.abort();
+  };
+
+  // Scroll a Key Concepts entry into view and briefly highlight it
+  const handleShowConcept = (index: number) => {
+    document
+      .getElementById(`concept-${index}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedConcept(index);
+    setTimeout(() => {
+      setHighlightedConcept((current) => (current === index ? null : current));
+    }, 2500);
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
       e.preventDefault();
@@ -103,113 +431,143 @@ export default function Page() {
 
   // --------- FILE UPLOAD HANDLERS ----------
 
-  const readFileContent = async (file: File): Promise<string> => {
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
+  const updateSource = (id: string, patch: Partial<SourceFile>) => {
+    setSources((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, ...patch } : s))
+    );
+  };
 
+  // Opens a guide exported from the app; false when the file is material
+  const importGuideFile = async (file: File): Promise<boolean> => {
+    let imported;
     try {
-      // Handle PDF files
-      if (fileExtension === 'pdf') {
-        // Only load PDF.js in browser environment
-        if (typeof window === "undefined") {
-          throw new Error("PDF processing is only available in the browser");
-        }
-        
-        if (!pdfjsLib) {
-          // Dynamically import if not already loaded - only in browser
-          pdfjsLib = await import("pdfjs-dist");
-          // Use worker from public folder
-          pdfjsLib.GlobalWorkerOptions.workerSrc = `${window.location.origin}/pdf.worker.min.js`;
-        }
-        
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-        let fullText = '';
-
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const textContent = await page.getTextContent();
-          const pageText = textContent.items
-            .map((item: any) => item.str)
-            .join(' ');
-          fullText += pageText + '\n\n';
-        }
-
-        return fullText.trim();
-      }
-
-      // Handle Word documents (.docx)
-      if (fileExtension === 'docx' || fileExtension === 'doc') {
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        return result.value;
-      }
+      imported = parseGuideImport(await file.text(), file.name, config);
+    } catch (err) {
+      if (!(err instanceof GuideImportError)) throw err;
+      setError(`${file.name}: ${err.message}`);
+      return true;
+    }
+    if (!imported) return false;
 
-      // Handle text files (.txt, .md, .text)
-      if (fileExtension === 'txt' || fileExtension === 'md' || fileExtension === 'text') {
-        return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (e) => {
-            const content = e.target?.result as string;
-            resolve(content);
-          };
-          reader.onerror = () => reject(new Error("Failed to read file"));
-          reader.readAsText(file);
-        });
-      }
+    if (isGenerating) {
+      setError("Wait for the current generation to finish before importing a guide.");
+      return true;
+    }
 
-      // Default: try reading as text
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const content = e.target?.result as string;
-          resolve(content);
-        };
-        reader.onerror = () => reject(new Error("Failed to read file"));
-        reader.readAsText(file);
+    applyGuide(imported.guide);
+    setChunkCount(0);
+    setIsQuizActive(false);
+    setShowResults(true);
+    setActiveGuideId(null);
+    if (imported.notice) alert(`${file.name}: ${imported.notice}`);
+    try {
+      const saved = await saveGuide({
+        title: imported.title ?? defaultGuideTitle("", file.name),
+        sourceFileName: file.name,
+        inputText: "",
+        guide: imported.guide,
       });
-    } catch (error) {
-      throw new Error(`Failed to read ${fileExtension} file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setActiveGuideId(saved.id);
+      await refreshLibrary();
+    } catch (err) {
+      console.error("Failed to save imported guide to library:", err);
     }
+    return true;
   };
 
-  const handleFileSelect = async (file: File) => {
-    if (!file) return;
+  const handleFilesSelect = async (selected: File[]) => {
+    if (selected.length === 0) return;
+    setError(null);
 
-    // Check file size (max 10MB for PDFs and docs, 5MB for others)
-    const maxSize = file.name.toLowerCase().endsWith('.pdf') || file.name.toLowerCase().endsWith('.docx') || file.name.toLowerCase().endsWith('.doc')
-      ? 10 * 1024 * 1024
-      : 5 * 1024 * 1024;
-    
-    if (file.size > maxSize) {
-      setError(`File is too large. Please use files smaller than ${maxSize / (1024 * 1024)}MB.`);
-      return;
+    // Exported guides open in the results instead of becoming material
+    const files: File[] = [];
+    for (const file of selected) {
+      if (!isGuideImportCandidate(file.name) || !(await importGuideFile(file))) {
+        files.push(file);
+      }
+    }
+    if (files.length === 0) return;
+
+    const added: SourceFile[] = files.map((file) => ({
+      id: crypto.randomUUID(),
+      name: file.name,
+      size: file.size,
+      status: "queued",
+      text: "",
+    }));
+    setSources((prev) => [...prev, ...added]);
+    for (const { id } of added) {
+      extractionAbortRefs.current.set(id, new AbortController());
     }
 
-    try {
-      setError(null);
-      setIsGenerating(true); // Show loading state while processing file
-      const content = await readFileContent(file);
-      
-      // Limit content to 10,000 characters to match API limit
-      if (content.length > 10000) {
-        setInputText(content.substring(0, 10000));
-        setError("File content was truncated to 10,000 characters to meet API limits.");
-      } else {
-        setInputText(content);
+    // One file at a time: PDF.js and mammoth are memory hungry on big files
+    for (const [index, file] of files.entries()) {
+      const { id } = added[index];
+      const controller = extractionAbortRefs.current.get(id);
+      // Removed while waiting for its turn
+      if (!controller || controller.signal.aborted) continue;
+      updateSource(id, { status: "reading" });
+
+      // Check file size (max 10MB for PDFs, docs, slides, e-books and images, 5MB for others)
+      const maxSize = /\.(pdf|docx?|pptx|epub|png|jpe?g)$/i.test(file.name)
+        ? 10 * 1024 * 1024
+        : 5 * 1024 * 1024;
+
+      if (file.size > maxSize) {
+        updateSource(id, {
+          status: "error",
+          error: `Too large (max ${maxSize / (1024 * 1024)}MB)`,
+        });
+        extractionAbortRefs.current.delete(id);
+        continue;
+      }
+
+      try {
+        const { text, warnings, pageCount, ocrPages } = await extractInWorker(file, {
+          onProgress: (progress) => updateSource(id, { progress }),
+          signal: controller.signal,
+        });
+        updateSource(id, {
+          status: "ready",
+          progress: undefined,
+          text,
+          warnings,
+          pageCount,
+          ocrPages,
+        });
+      } catch (err) {
+        // Cancelled files are already gone from the list
+        if (controller.signal.aborted) continue;
+        console.error("Error reading file:", err);
+        updateSource(id, {
+          status: "error",
+          progress: undefined,
+          error: err instanceof Error ? err.message : "Unknown error",
+        });
+      } finally {
+        extractionAbortRefs.current.delete(id);
       }
-    } catch (err) {
-      console.error("Error reading file:", err);
-      setError(`Failed to read file: ${err instanceof Error ? err.message : 'Unknown error'}. Please try a different file or paste the content directly.`);
-    } finally {
-      setIsGenerating(false);
     }
   };
 
+  const handleMoveSource = (id: string, offset: -1 | 1) => {
+    setSources((prev) => {
+      const from = prev.findIndex((s) => s.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  const handleRemoveSource = (id: string) => {
+    extractionAbortRefs.current.get(id)?.abort();
+    setSources((prev) => prev.filter((s) => s.id !== id));
+  };
+
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
-    }
+    handleFilesSelect(Array.from(e.target.files ?? []));
     // Reset input so same file can be selected again
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -233,50 +591,22 @@ export default function Page() {
     e.stopPropagation();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files?.[0];
-    if (file) {
-      handleFileSelect(file);
-    }
+    handleFilesSelect(Array.from(e.dataTransfer.files ?? []));
   };
 
   // --------- EXPORT / COPY HELPERS ----------
 
+  const unverifiedCount = [...concepts, ...questions].filter(
+    (item) => item.verified === false
+  ).length;
+
   const hasExportableContent =
     !!summary || concepts.length > 0 || questions.length > 0 || !!detailedSummary;
 
-  const buildExportText = () => {
-    const parts: string[] = [];
-
-    parts.push(`=== ${config.summary_heading} ===`);
-    parts.push(summary || "No summary generated.");
-
-    parts.push("");
-    parts.push(`=== ${config.concepts_heading} ===`);
-    if (concepts.length === 0) {
-      parts.push("No key concepts generated.");
-    } else {
-      concepts.forEach((c, i) => {
-        parts.push(`${i + 1}. ${c.term}`);
-        parts.push(`   - ${c.def}`);
-      });
-    }
-
-    parts.push("");
-    parts.push(`=== ${config.questions_heading} ===`);
-    if (questions.length === 0) {
-      parts.push("No questions generated.");
-    } else {
-      questions.forEach((q, i) => {
-        parts.push(`${i + 1}. ${q}`);
-      });
-    }
-
-    parts.push("");
-    parts.push(`=== ${config.detailed_summary_heading} ===`);
-    parts.push(detailedSummary || "No detailed summary generated.");
-
-    return parts.join("\n");
-  };
+  // Names shared links and exported files
+  const guideTitle =
+    savedGuides.find((g) => g.id === activeGuideId)?.title ??
+    defaultGuideTitle(inputText, sourceFileName);
 
   const handleCopyToClipboard = async () => {
     if (!hasExportableContent) {
@@ -285,7 +615,7 @@ export default function Page() {
     }
 
     try {
-      const text = buildExportText();
+      const text = buildGuideText(currentGuide, { title: guideTitle, config });
       await navigator.clipboard.writeText(text);
       alert("Study guide copied to clipboard ✅");
     } catch (err) {
@@ -294,70 +624,80 @@ export default function Page() {
     }
   };
 
-  const handleExportTxt = () => {
-    if (!hasExportableContent) {
-      alert("Nothing to export yet. Generate a study guide first.");
-      return;
-    }
-
-    const text = buildExportText();
-    const blob = new Blob([text], {
-      type: "text/plain;charset=utf-8",
-    });
+  const downloadBlob = (fileName: string, blob: Blob) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "study-guide.txt";
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     a.remove();
     URL.revokeObjectURL(url);
   };
 
-  const handleExportPdf = () => {
+  const downloadText = (fileName: string, text: string) => {
+    downloadBlob(fileName, new Blob([text], { type: "text/plain;charset=utf-8" }));
+  };
+
+  const handleExport = async () => {
+    const exporter = findExporter(exportFormat);
+    if (!exporter) return;
     if (!hasExportableContent) {
       alert("Nothing to export yet. Generate a study guide first.");
       return;
     }
 
-    const text = buildExportText();
+    setIsExporting(true);
+    try {
+      const blob = await exporter.build(currentGuide, { title: guideTitle, config });
+      downloadBlob(exporterFileName(exporter, guideTitle), blob);
+    } catch (err) {
+      console.error(err);
+      alert(
+        err instanceof ExportError
+          ? err.message
+          : `Could not create the ${exporter.label} export.`
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-    // Simple printable window; user can “Save as PDF” in the browser dialog
-    const printWindow = window.open("", "_blank");
-    if (!printWindow) {
-      alert("Popup blocked. Please allow popups to export as PDF.");
+  const hasFlashcardContent =
+    concepts.length > 0 || (includeQuestionCards && questions.length > 0);
+
+  const handleExportAnki = () => {
+    if (!hasFlashcardContent) {
+      alert("No key concepts to export yet. Generate a study guide first.");
       return;
     }
 
-    const html = `
-      <html>
-        <head>
-          <title>Study Guide</title>
-          <style>
-            body {
-              font-family: system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
-              padding: 24px;
-              line-height: 1.5;
-              white-space: pre-wrap;
-            }
-            h1 {
-              font-size: 20px;
-              margin-bottom: 16px;
-            }
-          </style>
-        </head>
-        <body>
-          <h1>${config.app_title} – Study Guide</h1>
-          <pre>${text.replace(/</g, "&lt;").replace(/>/g, "&gt;")}</pre>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.open();
-    printWindow.document.write(html);
-    printWindow.document.close();
-    printWindow.focus();
-    printWindow.print();
+    const text = buildAnkiImport(concepts, questions, {
+      deckName: `${config.app_title}::Study Guide`,
+      tags: [config.app_title.toLowerCase()],
+      includeQuestions: includeQuestionCards,
+    });
+    downloadText(exportFileName(`${guideTitle} (Anki)`, "txt"), text);
+  };
+
+  const handleCopyQuizlet = async () => {
+    if (!hasFlashcardContent) {
+      alert("No key concepts to copy yet. Generate a study guide first.");
+      return;
+    }
+
+    try {
+      const text = buildQuizletImport(concepts, questions, {
+        includeQuestions: includeQuestionCards,
+      });
+      await navigator.clipboard.writeText(text);
+      alert(
+        "Quizlet cards copied ✅ Paste them into Quizlet's import box (Tab between term and definition, New line between cards)."
+      );
+    } catch (err) {
+      console.error(err);
+      alert("Could not copy to clipboard.");
+    }
   };
 
   // ------------------------------------------
@@ -372,95 +712,6 @@ export default function Page() {
         fontSize: baseSize,
       }}
     >
-      {/* Global decor + animations */}
-      <style jsx global>{`
-        * {
-          box-sizing: border-box;
-        }
-
-        body {
-          margin: 0;
-        }
-
-        .bg-orbit {
-          position: fixed;
-          inset: 0;
-          pointer-events: none;
-          z-index: 0;
-          background:
-            radial-gradient(
-              circle at top left,
-              rgba(99, 102, 241, 0.22),
-              transparent 55%
-            ),
-            radial-gradient(
-              circle at top right,
-              rgba(139, 92, 246, 0.18),
-              transparent 55%
-            ),
-            radial-gradient(
-              circle at bottom,
-              rgba(15, 23, 42, 0.95),
-              rgba(15, 23, 42, 1)
-            );
-        }
-
-        @keyframes fadeIn {
-          from {
-            opacity: 0;
-            transform: translateY(6px);
-          }
-          to {
-            opacity: 1;
-            transform: translateY(0);
-          }
-        }
-
-        .fade-in {
-          animation: fadeIn 0.35s ease-out;
-        }
-
-        .loading-dots::after {
-          content: "";
-          animation: dots 1.5s steps(4, end) infinite;
-        }
-
-        @keyframes dots {
-          0%,
-          20% {
-            content: "";
-          }
-          40% {
-            content: ".";
-          }
-          60% {
-            content: "..";
-          }
-          80%,
-          100% {
-            content: "...";
-          }
-        }
-
-        .glass-surface {
-          backdrop-filter: blur(18px);
-          -webkit-backdrop-filter: blur(18px);
-          background:
-            radial-gradient(
-              circle at top left,
-              rgba(148, 163, 184, 0.24),
-              transparent 55%
-            ),
-            rgba(15, 23, 42, 0.88);
-        }
-
-        .glass-panel {
-          backdrop-filter: blur(16px);
-          -webkit-backdrop-filter: blur(16px);
-          background: rgba(15, 23, 42, 0.94);
-        }
-      `}</style>
-
       {/* Background layer */}
       <div className="bg-orbit" />
 
@@ -499,8 +750,26 @@ export default function Page() {
               </div>
             </div>
 
-            <div className="hidden items-center gap-3 text-[11px] text-slate-400 sm:flex">
-              <span className="inline-flex items-center gap-1 rounded-full border border-slate-700/70 bg-slate-900/60 px-2.5 py-1">
+            <div className="flex items-center gap-3 text-[11px] text-slate-400">
+              <button
+                onClick={() => setIsLibraryOpen(true)}
+                className="inline-flex items-center gap-1 rounded-full border border-slate-700/70 bg-slate-900/60 px-2.5 py-1 text-[11px] text-slate-200 hover:border-indigo-400"
+              >
+                📚 Library
+                {savedGuides.length > 0 && (
+                  <span className="text-slate-500">({savedGuides.length})</span>
+                )}
+              </button>
+              {dueFlashcardCount > 0 && (
+                <button
+                  onClick={() => setIsFlashcardsOpen(true)}
+                  className="inline-flex items-center gap-1 rounded-full border border-indigo-500/60 bg-indigo-500/10 px-2.5 py-1 text-[11px] text-indigo-100 hover:bg-indigo-500/20"
+                >
+                  🃏 {dueFlashcardCount} flashcard
+                  {dueFlashcardCount === 1 ? "" : "s"} due
+                </button>
+              )}
+              <span className="hidden items-center gap-1 rounded-full border border-slate-700/70 bg-slate-900/60 px-2.5 py-1 sm:inline-flex">
                 <kbd className="rounded bg-slate-800 px-1.5 py-0.5 text-[10px] text-slate-200">
                   ⌘
                 </kbd>
@@ -578,7 +847,8 @@ export default function Page() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".txt,.md,.text,.pdf,.docx,.doc"
+                  accept=".txt,.md,.text,.json,.pdf,.docx,.doc,.pptx,.epub,.html,.htm,.png,.jpg,.jpeg"
+                  multiple
                   onChange={handleFileInputChange}
                   className="hidden"
                   id="file-upload"
@@ -588,10 +858,45 @@ export default function Page() {
                   className="flex cursor-pointer items-center justify-center gap-2 rounded-lg border border-slate-700/80 bg-slate-900/60 px-4 py-2.5 text-xs text-slate-300 transition hover:border-indigo-400/80 hover:bg-slate-900/80"
                 >
                   <span className="text-base">📎</span>
-                  <span>Upload file (.txt, .md, .pdf, .docx) or drag & drop</span>
+                  <span>Upload files (.pdf, .docx, .pptx, .epub, .html, .txt, .md, images) or drag & drop</span>
                 </label>
+                <p className="mt-1 text-center text-[10px] text-slate-500">
+                  Guides exported as JSON or .txt open straight in the results
+                </p>
               </div>
 
+              {sources.length > 0 && (
+                <div className="mb-3">
+                  <div className="mb-1.5 flex items-center justify-between text-[11px] text-slate-400">
+                    <span>
+                      {sources.length} source{sources.length === 1 ? "" : "s"}
+                      {inputText.trim() && " + pasted notes"} · combined in
+                      this order
+                    </span>
+                    <span
+                      className={
+                        material.length > MAX_INPUT_CHARS ? "text-rose-400" : ""
+                      }
+                    >
+                      {material.length.toLocaleString()} /{" "}
+                      {MAX_INPUT_CHARS.toLocaleString()} chars
+                    </span>
+                  </div>
+                  <SourceList
+                    sources={sources}
+                    onMove={handleMoveSource}
+                    onRemove={handleRemoveSource}
+                  />
+                  {material.length > MAX_INPUT_CHARS && (
+                    <p className="mt-1.5 text-[11px] text-rose-400">
+                      The combined sources are too long. Remove a file or trim
+                      your notes below {MAX_INPUT_CHARS.toLocaleString()}{" "}
+                      characters.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div
                 className={`relative flex-1 rounded-xl border-2 border-dashed transition ${
                   isDragging
@@ -624,7 +929,7 @@ export default function Page() {
                 {isDragging && (
                   <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-xl bg-indigo-500/20 backdrop-blur-sm">
                     <div className="rounded-lg bg-slate-900/90 px-4 py-2 text-sm font-medium text-indigo-200 shadow-lg">
-                      📎 Drop file here to upload
+                      📎 Drop files here to add them as sources
                     </div>
                   </div>
                 )}
@@ -647,25 +952,40 @@ export default function Page() {
                   (or Ctrl + Enter) to generate instantly.
                 </p>
 
-                <button
-                  onClick={handleGenerate}
-                  disabled={isGenerating || !inputText.trim()}
-                  className="inline-flex items-center justify-center gap-2 rounded-xl border border-indigo-500/80 bg-linear-to-r from-indigo-500 via-indigo-500 to-violet-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-indigo-500/40   duration-150  enabled:hover:shadow-indigo-500/60 disabled:cursor-not-allowed disabled:opacity-50"
-                >
-                  {isGenerating ? (
-                    <>
-                      <span className="h-3 w-3 animate-spin rounded-full border-2 border-white/60 border-t-transparent" />
-                      <span className="loading-dots text-[13px]">
-                        Generating
-                      </span>
-                    </>
-                  ) : (
-                    <>
-                      <span className="text-[15px]">✨</span>
-                      <span>{config.generate_button_text}</span>
-                    </>
+                <div className="flex items-center gap-2">
+                  <GenerationSettings
+                    options={generationOptions}
+                    onChange={handleGenerationOptionsChange}
+                    disabled={isGenerating}
+                  />
+                  {isGenerating && generateAbortRef.current && (
+                    <button
+                      onClick={handleCancelGenerate}
+                      className="inline-flex items-center justify-center rounded-xl border border-slate-700 bg-slate-900/80 px-3 py-2.5 text-sm text-slate-200 hover:border-rose-400 hover:text-rose-200"
+                    >
+                      Cancel
+                    </button>
                   )}
-                </button>
+                  <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating || isReadingSources || !material}
+                    className="inline-flex items-center justify-center gap-2 rounded-xl border border-indigo-500/80 bg-linear-to-r from-indigo-500 via-indigo-500 to-violet-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-indigo-500/40   duration-150  enabled:hover:shadow-indigo-500/60 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {isGenerating ? (
+                      <>
+                        <span className="h-3 w-3 animate-spin rounded-full border-2 border-white/60 border-t-transparent" />
+                        <span className="loading-dots text-[13px]">
+                          Generating
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-[15px]">✨</span>
+                        <span>{config.generate_button_text}</span>
+                      </>
+                    )}
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -676,65 +996,179 @@ export default function Page() {
                 <div className="glass-panel flex flex-wrap items-center justify-end gap-2 rounded-2xl border border-slate-800/80 px-3 py-2 text-[11px] text-slate-200 sm:text-xs">
                   <span className="mr-auto text-[11px] text-slate-400">
                     Export or reuse your study guide:
+                    {chunkCount > 1 && !isGenerating && (
+                      <span className="ml-2 rounded-full bg-slate-900/80 px-2 py-0.5 text-[10px] text-slate-300 ring-1 ring-slate-700/80">
+                        Built from {chunkCount} chunks
+                      </span>
+                    )}
+                    {unverifiedCount > 0 && !isGenerating && (
+                      <span
+                        className="ml-2 rounded-full bg-amber-500/15 px-2 py-0.5 text-[10px] text-amber-200 ring-1 ring-amber-500/40"
+                        title="Their supporting quotes weren't found in your notes; double-check them"
+                      >
+                        ⚠ {unverifiedCount} unverified
+                      </span>
+                    )}
+                    {chunkProgress && (
+                      <span className="ml-2 rounded-full bg-slate-900/80 px-2 py-0.5 text-[10px] text-indigo-200 ring-1 ring-indigo-500/40">
+                        Processed {chunkProgress.completed} of{" "}
+                        {chunkProgress.total} chunks
+                      </span>
+                    )}
                   </span>
+                  <button
+                    onClick={handleUndo}
+                    disabled={!canEdit || history.past.length === 0}
+                    className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                    title="Undo the last change (Ctrl/⌘+Z)"
+                  >
+                    ↶ Undo
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={!canEdit || history.future.length === 0}
+                    className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                    title="Redo (Ctrl/⌘+Shift+Z)"
+                  >
+                    ↷ Redo
+                  </button>
+                  <span className="mx-1 hidden h-4 w-px bg-slate-700 sm:inline-block" />
+                  <button
+                    onClick={() => setIsShareOpen(true)}
+                    disabled={isGenerating || !hasExportableContent}
+                    className="rounded-lg border border-indigo-500/60 bg-indigo-500/10 px-2.5 py-1 text-indigo-100 hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    🔗 Share link
+                  </button>
                   <button
                     onClick={handleCopyToClipboard}
                     className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 hover:border-indigo-400 hover:bg-slate-900"
                   >
                     📋 Copy to clipboard
                   </button>
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value)}
+                    className="rounded-lg border border-slate-700 bg-slate-900/80 px-1.5 py-1 text-slate-200 outline-none"
+                    title={findExporter(exportFormat)?.description}
+                  >
+                    {EXPORTERS.map((exporter) => (
+                      <option key={exporter.id} value={exporter.id} title={exporter.description}>
+                        {exporter.icon} {exporter.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {isExporting ? "Exporting…" : "⬇ Export"}
+                  </button>
+                  <span className="mx-1 hidden h-4 w-px bg-slate-700 sm:inline-block" />
                   <button
-                    onClick={handleExportTxt}
+                    onClick={handleExportAnki}
                     className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 hover:border-indigo-400 hover:bg-slate-900"
+                    title="Tab-separated file for Anki's File → Import"
                   >
-                    📄 Export .txt
+                    🗂️ Anki deck
                   </button>
                   <button
-                    onClick={handleExportPdf}
+                    onClick={handleCopyQuizlet}
                     className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 hover:border-indigo-400 hover:bg-slate-900"
+                    title="Copy cards in Quizlet's import format"
                   >
-                    🧾 Export PDF
+                    📇 Copy for Quizlet
                   </button>
+                  <label className="inline-flex cursor-pointer items-center gap-1 text-[11px] text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={includeQuestionCards}
+                      onChange={(e) => setIncludeQuestionCards(e.target.checked)}
+                      className="accent-indigo-500"
+                    />
+                    Include questions as cards
+                  </label>
                 </div>
 
                 {/* Summary */}
-                <article className="fade-in glass-panel rounded-2xl border border-slate-800/80 p-4 shadow-xl shadow-slate-950/50 sm:p-5">
-                  <div className="mb-3 flex items-center gap-2">
-                    <div
-                      className="flex h-6 w-6 items-center justify-center rounded-full text-xs text-white"
-                      style={{ backgroundColor: primaryColor }}
-                    >
-                      📌
+                <GuidePanel
+                  icon="📌"
+                  iconColor={primaryColor}
+                  heading={config.summary_heading}
+                  label="Overview"
+                  actions={!isGenerating && summary && editing !== "summary" && (
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        onClick={() => setEditing("summary")}
+                        disabled={!canEdit}
+                        className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        ✎ Edit
+                      </button>
+                      <button
+                        onClick={() => handleRegenerateOverview("summary")}
+                        disabled={!!sectionBusy}
+                        className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                        title="Write a new summary"
+                      >
+                        {sectionBusy === "summary" ? "Rewriting…" : "↻ Regenerate"}
+                      </button>
                     </div>
-                    <h3 className="text-sm font-medium text-slate-50 sm:text-base">
-                      {config.summary_heading}
-                    </h3>
-                    <span className="ml-auto text-[11px] uppercase tracking-wide text-slate-500">
-                      Overview
-                    </span>
-                  </div>
-                  <p className="text-xs leading-relaxed text-slate-200 sm:text-sm">
-                    {summary || "No summary yet. Try generating again."}
-                  </p>
-                </article>
+                  )}
+                >
+                  {isGenerating && !summary ? (
+                    <p className="loading-dots text-xs text-slate-400 sm:text-sm">
+                      Writing summary
+                    </p>
+                  ) : editing === "summary" ? (
+                    <TextEditor
+                      value={summary}
+                      required
+                      onSave={(value) =>
+                        handleEdit({ kind: "set_text", section: "summary", value })
+                      }
+                      onCancel={() => setEditing(null)}
+                    />
+                  ) : (
+                    <Markdown
+                      text={summary || "No summary yet. Try generating again."}
+                      className="text-xs leading-relaxed text-slate-200 sm:text-sm"
+                    />
+                  )}
+                </GuidePanel>
 
                 {/* Concepts */}
-                <article className="fade-in glass-panel rounded-2xl border border-slate-800/80 p-4 shadow-xl shadow-slate-950/50 sm:p-5">
-                  <div className="mb-3 flex items-center gap-2">
-                    <div
-                      className="flex h-6 w-6 items-center justify-center rounded-full text-xs text-white"
-                      style={{ backgroundColor: secondaryColor }}
-                    >
-                      📚
+                <GuidePanel
+                  icon="📚"
+                  iconColor={secondaryColor}
+                  heading={config.concepts_heading}
+                  label="Definitions"
+                  actions={!isGenerating && summary && (
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        onClick={() => setEditing("concept-new")}
+                        disabled={!canEdit}
+                        className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        ✎ Add
+                      </button>
+                      {concepts.length > 0 && (
+                        <button
+                          onClick={() => setIsFlashcardsOpen(true)}
+                          className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900"
+                        >
+                          🃏 Flashcards
+                        </button>
+                      )}
                     </div>
-                    <h3 className="text-sm font-medium text-slate-50 sm:text-base">
-                      {config.concepts_heading}
-                    </h3>
-                    <span className="ml-auto text-[11px] uppercase tracking-wide text-slate-500">
-                      Definitions
-                    </span>
-                  </div>
-                  {concepts.length === 0 ? (
+                  )}
+                >
+                  {isGenerating && concepts.length === 0 ? (
+                    <p className="loading-dots text-xs text-slate-400 sm:text-sm">
+                      Collecting key concepts
+                    </p>
+                  ) : concepts.length === 0 && editing !== "concept-new" ? (
                     <p className="text-xs text-slate-300 sm:text-sm">
                       No key concepts found yet. Try a longer or more detailed
                       input.
@@ -744,7 +1178,12 @@ export default function Page() {
                       {concepts.map((item, idx) => (
                         <div
                           key={idx}
-                          className="group rounded-xl border border-slate-700/80 bg-slate-900/80 px-3 py-2.5 transition hover:border-indigo-400/80 hover:bg-slate-900"
+                          id={`concept-${idx}`}
+                          className={`group rounded-xl border border-slate-700/80 bg-slate-900/80 px-3 py-2.5 transition hover:border-indigo-400/80 hover:bg-slate-900 ${
+                            highlightedConcept === idx
+                              ? "ring-2 ring-indigo-400"
+                              : ""
+                          }`}
                           style={{
                             borderLeftWidth: 3,
                             borderLeftColor:
@@ -752,76 +1191,254 @@ export default function Page() {
                               defaultConfig.primary_color,
                           }}
                         >
-                          <div className="mb-0.5 text-xs font-semibold text-slate-50 sm:text-sm">
-                            {item.term}
-                          </div>
-                          <div className="text-[11px] text-slate-300 sm:text-xs">
-                            {item.def}
-                          </div>
+                          {editing === `concept-${idx}` ? (
+                            <ConceptEditor
+                              concept={item}
+                              onSave={(concept) =>
+                                handleEdit({
+                                  kind: "update_item",
+                                  list: "concepts",
+                                  index: idx,
+                                  item: concept,
+                                })
+                              }
+                              onCancel={() => setEditing(null)}
+                            />
+                          ) : (
+                            <>
+                              <div className="mb-0.5 flex flex-wrap items-center gap-2 text-xs font-semibold text-slate-50 sm:text-sm">
+                                <span>{item.term}</span>
+                                <SourceTag source={item.source} page={item.page} />
+                                <CitationTag
+                                  quote={item.quote}
+                                  verified={item.verified}
+                                  onShow={setSourceQuote}
+                                />
+                                {!isGenerating && (
+                                  <ItemControls
+                                    index={idx}
+                                    count={concepts.length}
+                                    disabled={!canEdit}
+                                    onMove={(offset) =>
+                                      handleEdit({ kind: "move_item", list: "concepts", index: idx, offset })
+                                    }
+                                    onEdit={() => setEditing(`concept-${idx}`)}
+                                    onDelete={() =>
+                                      handleEdit({ kind: "remove_item", list: "concepts", index: idx })
+                                    }
+                                  />
+                                )}
+                              </div>
+                              <Markdown
+                                text={item.def}
+                                className="text-[11px] text-slate-300 sm:text-xs"
+                              />
+                              <ConceptExpansion concept={item} />
+                              {!isGenerating && !item.explanation && (
+                                <button
+                                  onClick={() => handleExpandConcept(idx)}
+                                  disabled={!!sectionBusy}
+                                  className="mt-1.5 text-[11px] text-indigo-300 hover:text-indigo-200 disabled:cursor-not-allowed disabled:opacity-50"
+                                >
+                                  {sectionBusy === `concept-${idx}`
+                                    ? "Expanding…"
+                                    : "🔍 Explain in depth"}
+                                </button>
+                              )}
+                            </>
+                          )}
                         </div>
                       ))}
+                      {editing === "concept-new" && (
+                        <div className="rounded-xl border border-indigo-500/40 bg-slate-900/80 px-3 py-2.5">
+                          <ConceptEditor
+                            onSave={(concept) =>
+                              handleEdit({ kind: "add_item", list: "concepts", item: concept })
+                            }
+                            onCancel={() => setEditing(null)}
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
-                </article>
+                </GuidePanel>
+
+                {/* Preset sections (formulas, timeline, ...) */}
+                <GuideExtras extras={extras} accentColor={secondaryColor} />
 
                 {/* Questions */}
-                <article className="fade-in glass-panel rounded-2xl border border-slate-800/80 p-4 shadow-xl shadow-slate-950/50 sm:p-5">
-                  <div className="mb-3 flex items-center gap-2">
-                    <div
-                      className="flex h-6 w-6 items-center justify-center rounded-full text-xs text-white"
-                      style={{ backgroundColor: primaryColor }}
-                    >
-                      ❓
+                <GuidePanel
+                  icon="❓"
+                  iconColor={primaryColor}
+                  heading={config.questions_heading}
+                  label="Active recall"
+                  actions={!isGenerating && summary && !isQuizActive && (
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        onClick={() => setEditing("question-new")}
+                        disabled={!canEdit}
+                        className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        ✎ Add
+                      </button>
+                      {questions.length > 0 && (
+                        <>
+                          <select
+                            value={moreQuestionCount}
+                            onChange={(e) => setMoreQuestionCount(Number(e.target.value))}
+                            disabled={!!sectionBusy}
+                            className="rounded-lg border border-slate-700 bg-slate-900/80 px-1 py-0.5 text-[11px] text-slate-200 outline-none"
+                            title="How many questions to add"
+                          >
+                            {MORE_QUESTION_COUNTS.map((count) => (
+                              <option key={count} value={count}>
+                                {count}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={handleMoreQuestions}
+                            disabled={!!sectionBusy}
+                            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                            title="Add questions that aren't in the guide yet"
+                          >
+                            {sectionBusy === "more_questions" ? "Adding…" : "➕ More"}
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditing(null);
+                              setIsQuizActive(true);
+                            }}
+                            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900"
+                          >
+                            🎯 Start quiz
+                          </button>
+                        </>
+                      )}
                     </div>
-                    <h3 className="text-sm font-medium text-slate-50 sm:text-base">
-                      {config.questions_heading}
-                    </h3>
-                    <span className="ml-auto text-[11px] uppercase tracking-wide text-slate-500">
-                      Active recall
-                    </span>
-                  </div>
-                  {questions.length === 0 ? (
+                  )}
+                >
+                  {isQuizActive && questions.length > 0 ? (
+                    <QuizMode
+                      questions={questions}
+                      concepts={concepts}
+                      onShowConcept={handleShowConcept}
+                      onExit={() => setIsQuizActive(false)}
+                    />
+                  ) : isGenerating && questions.length === 0 ? (
+                    <p className="loading-dots text-xs text-slate-400 sm:text-sm">
+                      Drafting practice questions
+                    </p>
+                  ) : questions.length === 0 && editing !== "question-new" ? (
                     <p className="text-xs text-slate-300 sm:text-sm">
                       No questions generated yet. Try adding more context or
                       examples to your notes.
                     </p>
                   ) : (
-                    <ol className="flex max-h-64 list-decimal flex-col gap-2.5 overflow-y-auto pl-5 pr-1">
-                      {questions.map((q, idx) => (
-                        <li
-                          key={idx}
-                          className="text-xs leading-relaxed text-slate-200 sm:text-sm"
-                        >
-                          {q}
-                        </li>
-                      ))}
+                    <ol className="flex max-h-96 flex-col gap-2.5 overflow-y-auto pr-1">
+                      {questions.map((q, idx) =>
+                        editing === `question-${idx}` ? (
+                          <QuestionEditor
+                            key={`edit-${idx}`}
+                            question={q}
+                            onSave={(question) =>
+                              handleEdit({
+                                kind: "update_item",
+                                list: "questions",
+                                index: idx,
+                                item: question,
+                              })
+                            }
+                            onCancel={() => setEditing(null)}
+                          />
+                        ) : (
+                          <PracticeQuestionCard
+                            key={`${idx}-${q.prompt}`}
+                            question={q}
+                            index={idx}
+                            onShowQuote={setSourceQuote}
+                            controls={!isGenerating && (
+                              <ItemControls
+                                index={idx}
+                                count={questions.length}
+                                disabled={!canEdit}
+                                onMove={(offset) =>
+                                  handleEdit({ kind: "move_item", list: "questions", index: idx, offset })
+                                }
+                                onEdit={() => setEditing(`question-${idx}`)}
+                                onDelete={() =>
+                                  handleEdit({ kind: "remove_item", list: "questions", index: idx })
+                                }
+                              />
+                            )}
+                          />
+                        )
+                      )}
+                      {editing === "question-new" && (
+                        <QuestionEditor
+                          onSave={(question) =>
+                            handleEdit({ kind: "add_item", list: "questions", item: question })
+                          }
+                          onCancel={() => setEditing(null)}
+                        />
+                      )}
                     </ol>
                   )}
-                </article>
+                </GuidePanel>
 
                 {/* Detailed Summary */}
-                <article className="fade-in glass-panel rounded-2xl border border-slate-800/80 p-4 shadow-xl shadow-slate-950/50 sm:p-5">
-                  <div className="mb-3 flex items-center gap-2">
-                    <div
-                      className="flex h-6 w-6 items-center justify-center rounded-full text-xs text-white"
-                      style={{ backgroundColor: surfaceColor }}
-                    >
-                      📝
+                <GuidePanel
+                  icon="📝"
+                  iconColor={surfaceColor}
+                  heading={config.detailed_summary_heading}
+                  label="In-depth review"
+                  actions={!isGenerating && summary && editing !== "detailed_summary" && (
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        onClick={() => setEditing("detailed_summary")}
+                        disabled={!canEdit}
+                        className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        ✎ Edit
+                      </button>
+                      {detailedSummary && (
+                        <button
+                          onClick={() => handleRegenerateOverview("detailed_summary")}
+                          disabled={!!sectionBusy}
+                          className="rounded-lg border border-slate-700 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-200 hover:border-indigo-400 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                          title="Write a new detailed summary"
+                        >
+                          {sectionBusy === "detailed_summary" ? "Rewriting…" : "↻ Regenerate"}
+                        </button>
+                      )}
                     </div>
-                    <h3 className="text-sm font-medium text-slate-50 sm:text-base">
-                      {config.detailed_summary_heading}
-                    </h3>
-                    <span className="ml-auto text-[11px] uppercase tracking-wide text-slate-500">
-                      In-depth review
-                    </span>
-                  </div>
+                  )}
+                >
                   <div className="max-h-64 overflow-y-auto pr-1">
-                    <p className="whitespace-pre-wrap text-xs leading-relaxed text-slate-200 sm:text-sm">
-                      {detailedSummary ||
-                        "No detailed summary yet. Try generating again or provide more context in your notes."}
-                    </p>
+                    {isGenerating && !detailedSummary ? (
+                      <p className="loading-dots text-xs text-slate-400 sm:text-sm">
+                        Writing detailed summary
+                      </p>
+                    ) : editing === "detailed_summary" ? (
+                      <TextEditor
+                        value={detailedSummary}
+                        rows={10}
+                        onSave={(value) =>
+                          handleEdit({ kind: "set_text", section: "detailed_summary", value })
+                        }
+                        onCancel={() => setEditing(null)}
+                      />
+                    ) : (
+                      <Markdown
+                        text={
+                          detailedSummary ||
+                          "No detailed summary yet. Try generating again or provide more context in your notes."
+                        }
+                        className="text-xs leading-relaxed text-slate-200 sm:text-sm"
+                      />
+                    )}
                   </div>
-                </article>
+                </GuidePanel>
               </div>
             ) : (
               // EMPTY STATE
@@ -856,6 +1473,40 @@ export default function Page() {
             )}
           </section>
         </main>
+
+        {isLibraryOpen && (
+          <LibrarySidebar
+            guides={savedGuides}
+            activeId={activeGuideId}
+            onOpen={handleOpenGuide}
+            onRename={handleRenameGuide}
+            onDelete={handleDeleteGuide}
+            onClose={() => setIsLibraryOpen(false)}
+          />
+        )}
+
+        {sourceQuote !== null && (
+          <SourceViewer
+            text={material}
+            quote={sourceQuote}
+            onClose={() => setSourceQuote(null)}
+          />
+        )}
+
+        {isShareOpen && (
+          <ShareDialog
+            title={guideTitle}
+            guide={currentGuide}
+            onClose={() => setIsShareOpen(false)}
+          />
+        )}
+
+        {isFlashcardsOpen && (
+          <FlashcardMode
+            concepts={isGenerating ? [] : concepts}
+            onClose={() => setIsFlashcardsOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,46 @@
+// Badge for the supporting quote of a concept or question. Items the server
+// couldn't match to the material get a warning instead, since they may be
+// made up. With `onShow`, a verified quote opens the source view.
+export default function CitationTag({
+  quote,
+  verified,
+  onShow,
+}: {
+  quote?: string;
+  verified?: boolean;
+  onShow?: (quote: string) => void;
+}) {
+  if (verified === false) {
+    return (
+      <span
+        className="inline-block rounded-full bg-amber-500/15 px-2 py-0.5 align-middle text-[10px] font-normal normal-case tracking-normal text-amber-200 ring-1 ring-amber-500/40"
+        title={
+          quote
+            ? `This quote wasn't found in your notes, so the item may not come from them: “${quote}”`
+            : "No supporting quote from your notes, so the item may not come from them"
+        }
+      >
+        ⚠ Unverified
+      </span>
+    );
+  }
+
+  if (!quote) return null;
+
+  const className =
+    "inline-block rounded-full bg-slate-800/80 px-2 py-0.5 align-middle text-[10px] font-normal normal-case tracking-normal text-slate-400 ring-1 ring-slate-700";
+
+  return onShow ? (
+    <button
+      onClick={() => onShow(quote)}
+      className={`${className} hover:text-indigo-200 hover:ring-indigo-400`}
+      title={`“${quote}” (show in source)`}
+    >
+      ❝ Source
+    </button>
+  ) : (
+    <span className={className} title={`“${quote}”`}>
+      ❝ Quote
+    </span>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import type { Concept } from "@/lib/studyGuide";
+import { validateSection } from "@/lib/studyGuide";
+import { EDITOR_INPUT_CLASS, EditorButtons } from "@/components/TextEditor";
+
+// Inline editor for a key concept's term and definition. Other fields
+// (source, quote, expansion) are kept as they are.
+export default function ConceptEditor({
+  concept,
+  onSave,
+  onCancel,
+}: {
+  /** Undefined when adding a new concept. */
+  concept?: Concept;
+  onSave: (concept: Concept) => void;
+  onCancel: () => void;
+}) {
+  const [term, setTerm] = useState(concept?.term ?? "");
+  const [def, setDef] = useState(concept?.def ?? "");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSave = () => {
+    const result = validateSection("concepts", [{ ...concept, term, def }]);
+    if (!result.ok) {
+      setErrors(result.errors.map((error) => error.replace(/^concepts\[0\]\./, "")));
+      return;
+    }
+    onSave(result.value[0]);
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <input
+        value={term}
+        onChange={(e) => setTerm(e.target.value)}
+        placeholder="Term"
+        autoFocus
+        className={`${EDITOR_INPUT_CLASS} font-semibold`}
+      />
+      <textarea
+        value={def}
+        onChange={(e) => setDef(e.target.value)}
+        placeholder="Definition"
+        rows={3}
+        className={`${EDITOR_INPUT_CLASS} resize-y`}
+      />
+      <EditorButtons onSave={handleSave} onCancel={onCancel} errors={errors} />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Concept } from "@/lib/studyGuide";
+import Markdown from "@/components/Markdown";
+
+// The deeper explanation and examples of an expanded concept, shown under its
+// definition. Renders nothing for concepts that were never expanded.
+export default function ConceptExpansion({ concept }: { concept: Concept }) {
+  if (!concept.explanation && !concept.examples) return null;
+
+  return (
+    <div className="mt-2 space-y-2 border-t border-slate-800/80 pt-2 text-[11px] text-slate-300 sm:text-xs">
+      {concept.explanation && (
+        <Markdown text={concept.explanation} className="leading-relaxed" />
+      )}
+      {concept.examples && (
+        <div>
+          <p className="mb-1 text-[10px] uppercase tracking-wide text-slate-500">
+            Examples
+          </p>
+          <ul className="list-disc space-y-1 pl-4">
+            {concept.examples.map((example, i) => (
+              <li key={i}>
+                <Markdown text={example} inline />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
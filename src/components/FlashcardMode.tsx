@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Concept } from "@/lib/studyGuide";
+import type { Flashcard, FlashcardDeck } from "@/lib/flashcardStore";
+import {
+  addConcepts,
+  dueCards,
+  loadDeck,
+  nextDueDate,
+  saveDeck,
+} from "@/lib/flashcardStore";
+import Markdown from "@/components/Markdown";
+import type { ReviewGrade } from "@/lib/spacedRepetition";
+import { review } from "@/lib/spacedRepetition";
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: "Again", className: "border-rose-500/60 hover:bg-rose-500/15" },
+  { grade: 3, label: "Hard", className: "border-amber-500/60 hover:bg-amber-500/15" },
+  { grade: 4, label: "Good", className: "border-emerald-500/60 hover:bg-emerald-500/15" },
+  { grade: 5, label: "Easy", className: "border-sky-500/60 hover:bg-sky-500/15" },
+];
+
+function formatInterval(days: number): string {
+  if (days <= 1) return "1 day";
+  if (days < 30) return `${days} days`;
+  const months = Math.round(days / 30);
+  return months === 1 ? "1 month" : `${months} months`;
+}
+
+export default function FlashcardMode({
+  concepts,
+  onClose,
+}: {
+  concepts: Concept[];
+  onClose: () => void;
+}) {
+  const [deck, setDeck] = useState<FlashcardDeck>({});
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  // Merge the current guide's concepts into the stored deck once on open
+  useEffect(() => {
+    const merged = addConcepts(loadDeck(), concepts);
+    saveDeck(merged);
+    setDeck(merged);
+    setQueue(dueCards(merged));
+  }, []);
+
+  const card = queue[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+
+    const updated: Flashcard = {
+      ...card,
+      schedule: review(card.schedule, grade),
+    };
+    const nextDeck = { ...deck, [card.id]: updated };
+    saveDeck(nextDeck);
+    setDeck(nextDeck);
+
+    // Lapsed cards come back once more at the end of this session
+    setQueue((prev) => (grade < 3 ? [...prev.slice(1), updated] : prev.slice(1)));
+    setReviewedCount((n) => n + 1);
+    setFlipped(false);
+  };
+
+  const upcoming = nextDueDate(deck);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="glass-panel fade-in w-full max-w-lg rounded-2xl border border-slate-800/80 p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-50 sm:text-base">
+              🃏 Flashcards
+            </h3>
+            <p className="text-[11px] text-slate-400">
+              {Object.keys(deck).length} cards in your deck ·{" "}
+              {queue.length} due now · {reviewedCount} reviewed
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] text-slate-300 hover:border-indigo-400"
+          >
+            Close
+          </button>
+        </div>
+
+        {card ? (
+          <>
+            <button
+              onClick={() => setFlipped((f) => !f)}
+              className="flex min-h-48 w-full flex-col items-center justify-center rounded-xl border border-slate-700/80 bg-slate-900/80 px-4 py-6 text-center transition hover:border-indigo-400/80"
+            >
+              <span className="mb-2 text-[10px] uppercase tracking-wide text-slate-500">
+                {flipped ? "Definition" : "Term"}
+              </span>
+              <span
+                className={
+                  flipped
+                    ? "text-sm leading-relaxed text-slate-200"
+                    : "text-lg font-semibold text-slate-50"
+                }
+              >
+                {flipped ? <Markdown text={card.def} /> : card.term}
+              </span>
+              {!flipped && (
+                <span className="mt-3 text-[11px] text-slate-500">
+                  Click to flip
+                </span>
+              )}
+            </button>
+
+            {flipped ? (
+              <div className="mt-3 grid grid-cols-4 gap-2">
+                {GRADES.map(({ grade, label, className }) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    className={`flex flex-col items-center rounded-lg border bg-slate-900/80 px-2 py-1.5 text-xs text-slate-100 ${className}`}
+                  >
+                    <span className="font-semibold">{label}</span>
+                    <span className="text-[10px] text-slate-400">
+                      {formatInterval(review(card.schedule, grade).interval)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="mt-3 text-center text-[11px] text-slate-500">
+                Recall the definition, then flip the card to rate yourself.
+              </p>
+            )}
+          </>
+        ) : (
+          <div className="rounded-xl border border-slate-700/80 bg-slate-900/80 px-4 py-8 text-center">
+            <p className="text-2xl">🎉</p>
+            <p className="mt-1 text-sm font-medium text-slate-50">
+              {Object.keys(deck).length === 0
+                ? "No flashcards yet"
+                : "All caught up!"}
+            </p>
+            <p className="mt-1 text-[11px] text-slate-400">
+              {Object.keys(deck).length === 0
+                ? "Generate a study guide to turn its key concepts into cards."
+                : upcoming
+                  ? `Next review: ${upcoming.toLocaleDateString()}`
+                  : ""}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
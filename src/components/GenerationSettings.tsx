@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import type { GenerationOptions } from "@/lib/generationOptions";
+import {
+  AUDIENCES,
+  DEFAULT_GENERATION_OPTIONS,
+  GUIDE_DEPTHS,
+  LANGUAGES,
+  MAX_ITEM_COUNT,
+  MIN_ITEM_COUNT,
+} from "@/lib/generationOptions";
+import type { PresetId } from "@/lib/presets";
+import { PRESETS, PRESET_IDS } from "@/lib/presets";
+
+function ChoiceRow<T extends string>({
+  label,
+  choices,
+  value,
+  onChange,
+}: {
+  label: string;
+  choices: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div>
+      <p className="mb-1.5 text-[11px] uppercase tracking-wide text-slate-500">
+        {label}
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        {choices.map((choice) => (
+          <button
+            key={choice.value}
+            onClick={() => onChange(choice.value)}
+            className={`rounded-lg border px-2 py-1.5 transition ${
+              value === choice.value
+                ? "border-indigo-400 bg-indigo-500/10 text-slate-50"
+                : "border-slate-700/80 bg-slate-900/80 text-slate-300 hover:border-indigo-400/80"
+            }`}
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CountSlider({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1.5">
+      <span className="flex justify-between text-[11px] uppercase tracking-wide text-slate-500">
+        {label}
+        <span className="font-semibold normal-case text-slate-200">{value}</span>
+      </span>
+      <input
+        type="range"
+        min={MIN_ITEM_COUNT}
+        max={MAX_ITEM_COUNT}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="accent-indigo-500"
+      />
+    </label>
+  );
+}
+
+// "⚙️ Options" button next to Generate, opening a panel with the settings
+// sent along with the next generation.
+export default function GenerationSettings({
+  options,
+  onChange,
+  disabled,
+}: {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+  disabled?: boolean;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<GenerationOptions>) =>
+    onChange({ ...options, ...patch });
+
+  const preset = PRESETS[options.preset];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        className="inline-flex items-center gap-1.5 rounded-xl border border-slate-700 bg-slate-900/80 px-3 py-2.5 text-sm text-slate-200 hover:border-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+        title="Generation options"
+      >
+        <span>⚙️</span>
+        <span className="hidden text-[12px] sm:inline">
+          {preset.label} · {options.language}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="glass-panel fade-in absolute bottom-full right-0 z-40 mb-2 flex w-80 flex-col gap-3 rounded-2xl border border-slate-800/80 p-4 text-xs shadow-2xl">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-slate-50">Generation options</h3>
+            <button
+              onClick={() => onChange(DEFAULT_GENERATION_OPTIONS)}
+              className="text-[11px] text-slate-400 hover:text-indigo-300"
+            >
+              Reset
+            </button>
+          </div>
+
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[11px] uppercase tracking-wide text-slate-500">
+              Subject preset
+            </span>
+            <select
+              value={options.preset}
+              onChange={(e) => update({ preset: e.target.value as PresetId })}
+              className="rounded-lg border border-slate-700/80 bg-slate-950/80 px-2.5 py-1.5 text-slate-100 outline-none focus:border-indigo-400"
+            >
+              {PRESET_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {PRESETS[id].label}
+                </option>
+              ))}
+            </select>
+            <span className="text-[11px] text-slate-400">{preset.summary}</span>
+          </label>
+
+          <ChoiceRow
+            label="Depth"
+            choices={GUIDE_DEPTHS}
+            value={options.depth}
+            onChange={(depth) => update({ depth })}
+          />
+          <ChoiceRow
+            label="Audience"
+            choices={AUDIENCES}
+            value={options.audience}
+            onChange={(audience) => update({ audience })}
+          />
+          <CountSlider
+            label="Key concepts"
+            value={options.conceptCount}
+            onChange={(conceptCount) => update({ conceptCount })}
+          />
+          <CountSlider
+            label="Practice questions"
+            value={options.questionCount}
+            onChange={(questionCount) => update({ questionCount })}
+          />
+
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[11px] uppercase tracking-wide text-slate-500">
+              Output language
+            </span>
+            <select
+              value={options.language}
+              onChange={(e) => update({ language: e.target.value })}
+              className="rounded-lg border border-slate-700/80 bg-slate-950/80 px-2.5 py-1.5 text-slate-100 outline-none focus:border-indigo-400"
+            >
+              {LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {language}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="rounded-lg border border-indigo-500/80 bg-indigo-500 px-3 py-1.5 font-semibold text-white hover:bg-indigo-400"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
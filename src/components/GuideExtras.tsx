@@ -0,0 +1,58 @@
+import type { GuideExtras as GuideExtrasData } from "@/lib/studyGuide";
+import { describeExtraSection } from "@/lib/presets";
+import GuidePanel from "@/components/GuidePanel";
+import Markdown from "@/components/Markdown";
+
+// The extra sections of a preset guide (formula sheet, timeline, ...), one
+// panel each. Shared by the generator results and the shared guide page.
+export default function GuideExtras({
+  extras,
+  accentColor,
+}: {
+  extras?: GuideExtrasData;
+  accentColor: string;
+}) {
+  const sections = Object.entries(extras ?? {}).filter(([, items]) => items.length > 0);
+
+  return (
+    <>
+      {sections.map(([key, items]) => {
+        const { heading, icon } = describeExtraSection(key);
+        return (
+          <GuidePanel
+            key={key}
+            icon={icon}
+            iconColor={accentColor}
+            heading={heading}
+            label={`${items.length} ${items.length === 1 ? "entry" : "entries"}`}
+          >
+            <div className="flex max-h-80 flex-col gap-2.5 overflow-y-auto pr-1">
+              {items.map((item, idx) => {
+                const [title, ...rest] = Object.entries(item);
+                return (
+                  <div
+                    key={idx}
+                    className="rounded-xl border border-slate-700/80 bg-slate-900/80 px-3 py-2.5"
+                    style={{ borderLeftWidth: 3, borderLeftColor: accentColor }}
+                  >
+                    <div className="mb-0.5 text-xs font-semibold text-slate-50 sm:text-sm">
+                      <Markdown text={title?.[1] ?? ""} inline />
+                    </div>
+                    {rest.map(([field, value]) => (
+                      <div key={field} className="text-[11px] text-slate-300 sm:text-xs">
+                        <span className="font-medium capitalize text-slate-400">
+                          {field.replace(/_/g, " ")}:
+                        </span>
+                        <Markdown text={value} />
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </GuidePanel>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+import type { ReactNode } from "react";
+
+// One section card of a study guide (summary, concepts, ...). Shared by the
+// generator results and the read-only shared guide page.
+export default function GuidePanel({
+  icon,
+  iconColor,
+  heading,
+  label,
+  actions,
+  children,
+}: {
+  icon: string;
+  iconColor: string;
+  heading: string;
+  label: string;
+  actions?: ReactNode;
+  children: ReactNode;
+}) {
+  return (
+    <article className="fade-in glass-panel rounded-2xl border border-slate-800/80 p-4 shadow-xl shadow-slate-950/50 sm:p-5">
+      <div className="mb-3 flex items-center gap-2">
+        <div
+          className="flex h-6 w-6 items-center justify-center rounded-full text-xs text-white"
+          style={{ backgroundColor: iconColor }}
+        >
+          {icon}
+        </div>
+        <h3 className="text-sm font-medium text-slate-50 sm:text-base">
+          {heading}
+        </h3>
+        <span className="ml-auto text-[11px] uppercase tracking-wide text-slate-500">
+          {label}
+        </span>
+        {actions}
+      </div>
+      {children}
+    </article>
+  );
+}
@@ -0,0 +1,51 @@
+// Move, edit and delete buttons for one concept or question in the results.
+export default function ItemControls({
+  index,
+  count,
+  disabled,
+  onMove,
+  onEdit,
+  onDelete,
+}: {
+  index: number;
+  count: number;
+  disabled?: boolean;
+  onMove: (offset: -1 | 1) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const buttonClass =
+    "rounded px-1 text-[11px] text-slate-400 hover:bg-slate-800 hover:text-slate-100 disabled:cursor-not-allowed disabled:opacity-30";
+
+  return (
+    <span className="ml-auto inline-flex items-center gap-0.5 normal-case tracking-normal">
+      <button
+        onClick={() => onMove(-1)}
+        disabled={disabled || index === 0}
+        className={buttonClass}
+        title="Move up"
+      >
+        ↑
+      </button>
+      <button
+        onClick={() => onMove(1)}
+        disabled={disabled || index === count - 1}
+        className={buttonClass}
+        title="Move down"
+      >
+        ↓
+      </button>
+      <button onClick={onEdit} disabled={disabled} className={buttonClass} title="Edit">
+        ✎
+      </button>
+      <button
+        onClick={onDelete}
+        disabled={disabled}
+        className={`${buttonClass} hover:text-rose-300`}
+        title="Delete"
+      >
+        ✕
+      </button>
+    </span>
+  );
+}
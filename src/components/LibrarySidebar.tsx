@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import type { SavedGuide } from "@/lib/guideLibrary";
+
+export default function LibrarySidebar({
+  guides,
+  activeId,
+  onOpen,
+  onRename,
+  onDelete,
+  onClose,
+}: {
+  guides: SavedGuide[];
+  activeId: string | null;
+  onOpen: (guide: SavedGuide) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const needle = query.trim().toLowerCase();
+  const filtered = needle
+    ? guides.filter((g) =>
+        [g.title, g.sourceFileName ?? "", g.guide.summary]
+          .join(" ")
+          .toLowerCase()
+          .includes(needle)
+      )
+    : guides;
+
+  const startRename = (guide: SavedGuide) => {
+    setEditingId(guide.id);
+    setDraftTitle(guide.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside
+        className="glass-panel fade-in flex h-full w-full max-w-sm flex-col border-r border-slate-800/80 p-4 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-3 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-50 sm:text-base">
+              📚 Your library
+            </h2>
+            <p className="text-[11px] text-slate-400">
+              {guides.length} saved guide{guides.length === 1 ? "" : "s"} on
+              this device
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] text-slate-300 hover:border-indigo-400"
+          >
+            Close
+          </button>
+        </div>
+
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search guides..."
+          className="mb-3 w-full rounded-lg border border-slate-700/80 bg-slate-950/80 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400"
+        />
+
+        <ul className="flex flex-1 flex-col gap-2 overflow-y-auto pr-1">
+          {filtered.length === 0 && (
+            <li className="px-1 py-6 text-center text-xs text-slate-500">
+              {guides.length === 0
+                ? "Generated guides are saved here automatically."
+                : "No guides match your search."}
+            </li>
+          )}
+          {filtered.map((guide) => (
+            <li
+              key={guide.id}
+              className={`rounded-xl border px-3 py-2.5 transition ${
+                guide.id === activeId
+                  ? "border-indigo-400/80 bg-indigo-500/10"
+                  : "border-slate-700/80 bg-slate-900/80 hover:border-indigo-400/60"
+              }`}
+            >
+              {editingId === guide.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full rounded border border-indigo-400 bg-slate-950 px-1.5 py-0.5 text-xs text-slate-50 outline-none"
+                />
+              ) : (
+                <button
+                  onClick={() => onOpen(guide)}
+                  className="w-full text-left text-xs font-semibold text-slate-50 hover:text-indigo-200 sm:text-sm"
+                >
+                  {guide.title}
+                </button>
+              )}
+              <p className="mt-0.5 text-[10px] text-slate-500">
+                {new Date(guide.createdAt).toLocaleString()}
+                {guide.sourceFileName && ` · 📎 ${guide.sourceFileName}`}
+              </p>
+              <p className="mt-1 line-clamp-2 text-[11px] text-slate-400">
+                {guide.guide.summary}
+              </p>
+              <div className="mt-1.5 flex gap-2 text-[11px]">
+                <button
+                  onClick={() => onOpen(guide)}
+                  className="text-indigo-300 hover:underline"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => startRename(guide)}
+                  className="text-slate-400 hover:text-slate-200"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Delete "${guide.title}"?`)) onDelete(guide.id);
+                  }}
+                  className="text-slate-400 hover:text-rose-300"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+}
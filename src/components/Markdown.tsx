@@ -0,0 +1,22 @@
+import { markdownToHtml } from "@/lib/markdown";
+
+// Guide text rendered as sanitized Markdown with math and highlighted code.
+// `inline` renders a one-paragraph text without the paragraph, for options,
+// badges and other text inside a line.
+export default function Markdown({
+  text,
+  inline,
+  className = "",
+}: {
+  text: string;
+  inline?: boolean;
+  className?: string;
+}) {
+  const Tag = inline ? "span" : "div";
+  return (
+    <Tag
+      className={`markdown ${className}`}
+      dangerouslySetInnerHTML={{ __html: markdownToHtml(text, { inline }) }}
+    />
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import type { ReactNode } from "react";
+import type { Difficulty, PracticeQuestion } from "@/lib/studyGuide";
+import SourceTag from "@/components/SourceTag";
+import CitationTag from "@/components/CitationTag";
+import Markdown from "@/components/Markdown";
+import {
+  QUESTION_TYPE_LABELS,
+  describeAnswer,
+  optionLabel,
+} from "@/lib/studyGuide";
+
+const DIFFICULTY_STYLES: Record<Difficulty, string> = {
+  easy: "bg-emerald-500/15 text-emerald-200 ring-emerald-500/40",
+  medium: "bg-amber-500/15 text-amber-200 ring-amber-500/40",
+  hard: "bg-rose-500/15 text-rose-200 ring-rose-500/40",
+};
+
+export default function PracticeQuestionCard({
+  question,
+  index,
+  onShowQuote,
+  controls,
+}: {
+  question: PracticeQuestion;
+  index: number;
+  /** Opens the source view at the question's supporting quote. */
+  onShowQuote?: (quote: string) => void;
+  /** Edit buttons shown at the end of the header row. */
+  controls?: ReactNode;
+}) {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <li className="rounded-xl border border-slate-700/80 bg-slate-900/80 px-3 py-2.5">
+      <div className="mb-1.5 flex flex-wrap items-center gap-1.5 text-[10px] uppercase tracking-wide">
+        <span className="text-slate-500">Q{index + 1}</span>
+        <span className="rounded-full bg-slate-800 px-2 py-0.5 text-slate-300 ring-1 ring-slate-700">
+          {QUESTION_TYPE_LABELS[question.type]}
+        </span>
+        <span
+          className={`rounded-full px-2 py-0.5 ring-1 ${DIFFICULTY_STYLES[question.difficulty]}`}
+        >
+          {question.difficulty}
+        </span>
+        <SourceTag source={question.source} />
+        <CitationTag
+          quote={question.quote}
+          verified={question.verified}
+          onShow={onShowQuote}
+        />
+        {controls}
+      </div>
+
+      <Markdown
+        text={question.prompt}
+        className="text-xs leading-relaxed text-slate-100 sm:text-sm"
+      />
+
+      {question.type === "multiple_choice" && (
+        <ul className="mt-1.5 flex flex-col gap-1">
+          {question.options.map((option, i) => (
+            <li
+              key={i}
+              className={`rounded-lg px-2 py-1 text-[11px] sm:text-xs ${
+                revealed && i === question.answer_index
+                  ? "bg-emerald-500/15 text-emerald-100 ring-1 ring-emerald-500/40"
+                  : "text-slate-300"
+              }`}
+            >
+              <span className="mr-1.5 font-semibold text-slate-400">
+                {optionLabel(i)})
+              </span>
+              <Markdown text={option} inline />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={() => setRevealed((r) => !r)}
+        className="mt-2 rounded-lg border border-slate-700 bg-slate-950/60 px-2 py-0.5 text-[11px] text-slate-300 hover:border-indigo-400 hover:text-indigo-200"
+      >
+        {revealed ? "Hide answer" : "Reveal answer"}
+      </button>
+
+      {revealed && (
+        <div className="fade-in mt-2 rounded-lg bg-slate-950/60 px-2.5 py-2 text-[11px] leading-relaxed sm:text-xs">
+          <div className="text-emerald-200">
+            <span className="font-semibold">Answer:</span>{" "}
+            <Markdown text={describeAnswer(question)} inline />
+          </div>
+          <Markdown text={question.explanation} className="mt-1 text-slate-400" />
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import type { Difficulty, PracticeQuestion, QuestionType } from "@/lib/studyGuide";
+import {
+  DIFFICULTIES,
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  QUESTION_TYPE_LABELS,
+  optionLabel,
+  validateSection,
+} from "@/lib/studyGuide";
+import { EDITOR_INPUT_CLASS, EditorButtons } from "@/components/TextEditor";
+
+// The fields of every question type at once, so switching the type while
+// editing doesn't lose what was typed for another one.
+type Draft = {
+  type: QuestionType;
+  prompt: string;
+  options: string[];
+  answerIndex: number;
+  answer: boolean;
+  modelAnswer: string;
+  explanation: string;
+  difficulty: Difficulty;
+};
+
+function toDraft(question?: PracticeQuestion): Draft {
+  return {
+    type: question?.type ?? "multiple_choice",
+    prompt: question?.prompt ?? "",
+    options: question?.type === "multiple_choice" ? question.options : ["", "", "", ""],
+    answerIndex: question?.type === "multiple_choice" ? question.answer_index : 0,
+    answer: question?.type === "true_false" ? question.answer : true,
+    modelAnswer: question?.type === "short_answer" ? question.model_answer : "",
+    explanation: question?.explanation ?? "",
+    difficulty: question?.difficulty ?? "medium",
+  };
+}
+
+function fromDraft(draft: Draft, question?: PracticeQuestion) {
+  const { concept, source, quote, verified } = question ?? {};
+  const base = {
+    prompt: draft.prompt,
+    explanation: draft.explanation,
+    difficulty: draft.difficulty,
+    concept,
+    source,
+    quote,
+    verified,
+  };
+  switch (draft.type) {
+    case "multiple_choice":
+      return { ...base, type: draft.type, options: draft.options, answer_index: draft.answerIndex };
+    case "true_false":
+      return { ...base, type: draft.type, answer: draft.answer };
+    case "short_answer":
+      return { ...base, type: draft.type, model_answer: draft.modelAnswer };
+  }
+}
+
+// Inline editor for a practice question: prompt, type, options or answer,
+// explanation and difficulty.
+export default function QuestionEditor({
+  question,
+  onSave,
+  onCancel,
+}: {
+  /** Undefined when adding a new question. */
+  question?: PracticeQuestion;
+  onSave: (question: PracticeQuestion) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(() => toDraft(question));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = (patch: Partial<Draft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const setOption = (index: number, value: string) =>
+    update({ options: draft.options.map((o, i) => (i === index ? value : o)) });
+
+  const removeOption = (index: number) =>
+    update({
+      options: draft.options.filter((_, i) => i !== index),
+      answerIndex:
+        index < draft.answerIndex || draft.answerIndex === draft.options.length - 1
+          ? Math.max(0, draft.answerIndex - 1)
+          : draft.answerIndex,
+    });
+
+  const handleSave = () => {
+    const result = validateSection("questions", [fromDraft(draft, question)]);
+    if (!result.ok) {
+      setErrors(result.errors.map((error) => error.replace(/^questions\[0\]\./, "")));
+      return;
+    }
+    onSave(result.value[0]);
+  };
+
+  return (
+    <li className="flex flex-col gap-1.5 rounded-xl border border-indigo-500/40 bg-slate-900/80 px-3 py-2.5">
+      <div className="flex flex-wrap gap-1.5">
+        <select
+          value={draft.type}
+          onChange={(e) => update({ type: e.target.value as QuestionType })}
+          className="rounded-lg border border-slate-700 bg-slate-900/80 px-1.5 py-0.5 text-[11px] text-slate-200 outline-none"
+        >
+          {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={draft.difficulty}
+          onChange={(e) => update({ difficulty: e.target.value as Difficulty })}
+          className="rounded-lg border border-slate-700 bg-slate-900/80 px-1.5 py-0.5 text-[11px] text-slate-200 outline-none"
+        >
+          {DIFFICULTIES.map((difficulty) => (
+            <option key={difficulty} value={difficulty}>
+              {difficulty}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        value={draft.prompt}
+        onChange={(e) => update({ prompt: e.target.value })}
+        placeholder="Question"
+        rows={2}
+        autoFocus
+        className={`${EDITOR_INPUT_CLASS} resize-y`}
+      />
+
+      {draft.type === "multiple_choice" && (
+        <div className="flex flex-col gap-1">
+          {draft.options.map((option, i) => (
+            <div key={i} className="flex items-center gap-1.5">
+              <input
+                type="radio"
+                checked={draft.answerIndex === i}
+                onChange={() => update({ answerIndex: i })}
+                className="accent-emerald-500"
+                title="Correct answer"
+              />
+              <span className="w-4 text-[11px] font-semibold text-slate-400">
+                {optionLabel(i)})
+              </span>
+              <input
+                value={option}
+                onChange={(e) => setOption(i, e.target.value)}
+                className={EDITOR_INPUT_CLASS}
+              />
+              <button
+                onClick={() => removeOption(i)}
+                disabled={draft.options.length <= MIN_OPTIONS}
+                className="text-[11px] text-slate-400 hover:text-rose-300 disabled:opacity-30"
+                title="Remove option"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {draft.options.length < MAX_OPTIONS && (
+            <button
+              onClick={() => update({ options: [...draft.options, ""] })}
+              className="self-start text-[11px] text-indigo-300 hover:text-indigo-200"
+            >
+              + Add option
+            </button>
+          )}
+        </div>
+      )}
+
+      {draft.type === "true_false" && (
+        <div className="flex gap-3 text-[11px] text-slate-300">
+          {[true, false].map((value) => (
+            <label key={String(value)} className="inline-flex items-center gap-1">
+              <input
+                type="radio"
+                checked={draft.answer === value}
+                onChange={() => update({ answer: value })}
+                className="accent-emerald-500"
+              />
+              {value ? "True" : "False"}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {draft.type === "short_answer" && (
+        <textarea
+          value={draft.modelAnswer}
+          onChange={(e) => update({ modelAnswer: e.target.value })}
+          placeholder="Model answer"
+          rows={2}
+          className={`${EDITOR_INPUT_CLASS} resize-y`}
+        />
+      )}
+
+      <textarea
+        value={draft.explanation}
+        onChange={(e) => update({ explanation: e.target.value })}
+        placeholder="Explanation"
+        rows={2}
+        className={`${EDITOR_INPUT_CLASS} resize-y`}
+      />
+
+      <EditorButtons onSave={handleSave} onCancel={onCancel} errors={errors} />
+    </li>
+  );
+}
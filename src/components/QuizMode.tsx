@@ -0,0 +1,374 @@
+"use client";
+
+import { useState } from "react";
+import type { Concept, PracticeQuestion } from "@/lib/studyGuide";
+import {
+  QUESTION_TYPE_LABELS,
+  describeAnswer,
+  findConceptIndex,
+  optionLabel,
+} from "@/lib/studyGuide";
+import Markdown from "@/components/Markdown";
+
+type QuizResponse = {
+  given: string;
+  correct: boolean;
+  feedback?: string;
+};
+
+const UNTAGGED_CONCEPT = "General";
+
+export default function QuizMode({
+  questions,
+  concepts,
+  onShowConcept,
+  onExit,
+}: {
+  questions: PracticeQuestion[];
+  concepts: Concept[];
+  onShowConcept: (index: number) => void;
+  onExit: () => void;
+}) {
+  const [current, setCurrent] = useState(0);
+  const [responses, setResponses] = useState<(QuizResponse | undefined)[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+  const [finished, setFinished] = useState(false);
+
+  const question = questions[current];
+  const response = responses[current];
+
+  const record = (result: QuizResponse) => {
+    setResponses((prev) => {
+      const next = [...prev];
+      next[current] = result;
+      return next;
+    });
+  };
+
+  const handleCheckChoice = (choice: number) => {
+    if (response) return;
+    if (question.type === "multiple_choice") {
+      record({
+        given: `${optionLabel(choice)}) ${question.options[choice]}`,
+        correct: choice === question.answer_index,
+      });
+    } else if (question.type === "true_false") {
+      record({
+        given: choice === 1 ? "True" : "False",
+        correct: (choice === 1) === question.answer,
+      });
+    }
+  };
+
+  const handleCheckShortAnswer = async () => {
+    const answer = draft.trim();
+    if (!answer || isGrading || response) return;
+
+    setIsGrading(true);
+    setGradeError(null);
+
+    try {
+      const res = await fetch("/api/grade", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ question, answer }),
+      });
+
+      if (!res.ok) {
+        const text = await res.text();
+        console.error("Failed to grade:", text);
+        setGradeError("Could not grade this answer. Please try again.");
+        return;
+      }
+
+      const data = (await res.json()) as { correct: boolean; feedback: string };
+      record({ given: answer, correct: data.correct, feedback: data.feedback });
+    } catch (err) {
+      console.error(err);
+      setGradeError("Network error while grading your answer.");
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const handleNext = () => {
+    setSelected(null);
+    setDraft("");
+    setGradeError(null);
+    if (current + 1 >= questions.length) {
+      setFinished(true);
+    } else {
+      setCurrent(current + 1);
+    }
+  };
+
+  const handleRestart = () => {
+    setCurrent(0);
+    setResponses([]);
+    setSelected(null);
+    setDraft("");
+    setGradeError(null);
+    setFinished(false);
+  };
+
+  if (finished) {
+    const correctCount = responses.filter((r) => r?.correct).length;
+    const percent = Math.round((correctCount / questions.length) * 100);
+
+    // Group results by the concept each question tests
+    const byConcept = new Map<string, { correct: number; total: number; index: number }>();
+    questions.forEach((q, i) => {
+      const index = findConceptIndex(concepts, q.concept);
+      const name = index !== -1 ? concepts[index].term : UNTAGGED_CONCEPT;
+      const entry = byConcept.get(name) ?? { correct: 0, total: 0, index };
+      entry.total++;
+      if (responses[i]?.correct) entry.correct++;
+      byConcept.set(name, entry);
+    });
+
+    const missed = questions
+      .map((q, i) => ({ q, i, response: responses[i] }))
+      .filter(({ response }) => !response?.correct);
+
+    return (
+      <div className="fade-in flex flex-col gap-3 text-xs sm:text-sm">
+        <div className="rounded-xl border border-slate-700/80 bg-slate-900/80 px-3 py-3 text-center">
+          <p className="text-[11px] uppercase tracking-wide text-slate-500">
+            Your score
+          </p>
+          <p className="text-2xl font-semibold text-slate-50">
+            {correctCount} / {questions.length}
+          </p>
+          <p className="text-slate-400">{percent}% correct</p>
+        </div>
+
+        <div>
+          <p className="mb-1.5 text-[11px] uppercase tracking-wide text-slate-500">
+            By concept
+          </p>
+          <ul className="flex flex-col gap-1">
+            {Array.from(byConcept.entries()).map(([name, entry]) => (
+              <li
+                key={name}
+                className="flex items-center justify-between rounded-lg bg-slate-900/70 px-2.5 py-1.5"
+              >
+                {entry.index !== -1 ? (
+                  <button
+                    onClick={() => onShowConcept(entry.index)}
+                    className="text-left text-indigo-200 hover:underline"
+                  >
+                    {name}
+                  </button>
+                ) : (
+                  <span className="text-slate-300">{name}</span>
+                )}
+                <span
+                  className={
+                    entry.correct === entry.total
+                      ? "text-emerald-300"
+                      : "text-amber-300"
+                  }
+                >
+                  {entry.correct}/{entry.total}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {missed.length > 0 && (
+          <div>
+            <p className="mb-1.5 text-[11px] uppercase tracking-wide text-slate-500">
+              Review these
+            </p>
+            <ul className="flex flex-col gap-1.5">
+              {missed.map(({ q, i }) => {
+                const conceptIndex = findConceptIndex(concepts, q.concept);
+                return (
+                  <li
+                    key={i}
+                    className="rounded-lg border border-rose-500/30 bg-rose-500/5 px-2.5 py-2"
+                  >
+                    <div className="flex gap-1 text-slate-200">
+                      <span>Q{i + 1}.</span>
+                      <Markdown text={q.prompt} />
+                    </div>
+                    <div className="mt-0.5 text-[11px] text-emerald-200">
+                      Answer: <Markdown text={describeAnswer(q)} inline />
+                    </div>
+                    {conceptIndex !== -1 && (
+                      <button
+                        onClick={() => onShowConcept(conceptIndex)}
+                        className="mt-1 text-[11px] text-indigo-300 hover:underline"
+                      >
+                        📚 Review “{concepts[conceptIndex].term}” in Key Concepts
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={handleRestart}
+            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] hover:border-indigo-400 sm:text-xs"
+          >
+            🔁 Retake quiz
+          </button>
+          <button
+            onClick={onExit}
+            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] hover:border-indigo-400 sm:text-xs"
+          >
+            Back to questions
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const choiceClass = (index: number, isAnswer: boolean) => {
+    if (!response) {
+      return selected === index
+        ? "border-indigo-400 bg-indigo-500/10 text-slate-50"
+        : "border-slate-700/80 bg-slate-900/80 text-slate-300 hover:border-indigo-400/80";
+    }
+    if (isAnswer) return "border-emerald-500/60 bg-emerald-500/15 text-emerald-100";
+    if (selected === index) return "border-rose-500/60 bg-rose-500/10 text-rose-100";
+    return "border-slate-800 bg-slate-900/60 text-slate-500";
+  };
+
+  return (
+    <div className="fade-in flex flex-col gap-3 text-xs sm:text-sm">
+      <div className="flex items-center justify-between text-[11px] text-slate-400">
+        <span>
+          Question {current + 1} of {questions.length} ·{" "}
+          {QUESTION_TYPE_LABELS[question.type]} · {question.difficulty}
+        </span>
+        <button onClick={onExit} className="hover:text-slate-200">
+          Exit quiz
+        </button>
+      </div>
+
+      <div className="h-1 overflow-hidden rounded-full bg-slate-800">
+        <div
+          className="h-full bg-indigo-500 transition-all"
+          style={{ width: `${(current / questions.length) * 100}%` }}
+        />
+      </div>
+
+      <Markdown text={question.prompt} className="leading-relaxed text-slate-100" />
+
+      {question.type === "multiple_choice" && (
+        <div className="flex flex-col gap-1.5">
+          {question.options.map((option, i) => (
+            <button
+              key={i}
+              disabled={!!response}
+              onClick={() => setSelected(i)}
+              className={`rounded-lg border px-2.5 py-1.5 text-left transition ${choiceClass(
+                i,
+                i === question.answer_index
+              )}`}
+            >
+              <span className="mr-1.5 font-semibold">{optionLabel(i)})</span>
+              <Markdown text={option} inline />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {question.type === "true_false" && (
+        <div className="grid grid-cols-2 gap-2">
+          {["False", "True"].map((label, i) => (
+            <button
+              key={label}
+              disabled={!!response}
+              onClick={() => setSelected(i)}
+              className={`rounded-lg border px-2.5 py-1.5 transition ${choiceClass(
+                i,
+                (i === 1) === question.answer
+              )}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {question.type === "short_answer" && (
+        <textarea
+          value={draft}
+          disabled={!!response || isGrading}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Type your answer..."
+          className="h-24 w-full resize-none rounded-lg border border-slate-700/80 bg-slate-950/80 px-2.5 py-2 text-slate-100 outline-none focus:border-indigo-400"
+        />
+      )}
+
+      {gradeError && <p className="text-rose-400">{gradeError}</p>}
+
+      {response ? (
+        <div
+          className={`rounded-lg px-2.5 py-2 ${
+            response.correct
+              ? "bg-emerald-500/10 text-emerald-100"
+              : "bg-rose-500/10 text-rose-100"
+          }`}
+        >
+          <p className="font-semibold">
+            {response.correct ? "✅ Correct" : "❌ Not quite"}
+          </p>
+          {response.feedback && <p className="mt-0.5">{response.feedback}</p>}
+          {!response.correct && (
+            <div className="mt-0.5">
+              Answer: <Markdown text={describeAnswer(question)} inline />
+            </div>
+          )}
+          <Markdown
+            text={question.explanation}
+            className="mt-1 text-[11px] text-slate-400"
+          />
+        </div>
+      ) : null}
+
+      <div className="flex justify-end">
+        {response ? (
+          <button
+            onClick={handleNext}
+            className="rounded-lg border border-indigo-500/80 bg-indigo-500 px-3 py-1.5 font-semibold text-white hover:bg-indigo-400"
+          >
+            {current + 1 >= questions.length ? "See results" : "Next question"}
+          </button>
+        ) : question.type === "short_answer" ? (
+          <button
+            onClick={handleCheckShortAnswer}
+            disabled={!draft.trim() || isGrading}
+            className="rounded-lg border border-indigo-500/80 bg-indigo-500 px-3 py-1.5 font-semibold text-white hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isGrading ? (
+              <span className="loading-dots">Grading</span>
+            ) : (
+              "Check answer"
+            )}
+          </button>
+        ) : (
+          <button
+            onClick={() => selected !== null && handleCheckChoice(selected)}
+            disabled={selected === null}
+            className="rounded-lg border border-indigo-500/80 bg-indigo-500 px-3 py-1.5 font-semibold text-white hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Check answer
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import type { StudyGuide } from "@/lib/studyGuide";
+import { forgetShareToken, rememberShareToken } from "@/lib/shareTokens";
+
+const EXPIRY_CHOICES: { days: 1 | 7 | 30 | null; label: string }[] = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: null, label: "Never" },
+];
+
+type SharedLink = {
+  id: string;
+  url: string;
+  deleteToken: string;
+  expiresAt: string | null;
+};
+
+export default function ShareDialog({
+  title,
+  guide,
+  onClose,
+}: {
+  title: string;
+  guide: StudyGuide;
+  onClose: () => void;
+}) {
+  const [expiresInDays, setExpiresInDays] = useState<1 | 7 | 30 | null>(7);
+  const [link, setLink] = useState<SharedLink | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const absoluteUrl = link ? `${window.location.origin}${link.url}` : "";
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/guides", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ title, guide, expiresInDays }),
+      });
+
+      if (!res.ok) {
+        const text = await res.text();
+        console.error("Failed to share guide:", text);
+        setError(
+          res.status === 413
+            ? "This guide is too large to share. Remove some concepts or questions and try again."
+            : "Could not create a share link. Please try again."
+        );
+        return;
+      }
+
+      const data = (await res.json()) as SharedLink;
+      rememberShareToken(data.id, data.deleteToken);
+      setLink(data);
+    } catch (err) {
+      console.error(err);
+      setError("Network error while creating the share link.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl);
+      alert("Share link copied ✅");
+    } catch (err) {
+      console.error(err);
+      alert("Could not copy to clipboard.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!link || !confirm("Delete this share link? Anyone using it will lose access.")) {
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/guides/${link.id}`, {
+        method: "DELETE",
+        headers: { "X-Delete-Token": link.deleteToken },
+      });
+
+      if (!res.ok && res.status !== 404) {
+        const text = await res.text();
+        console.error("Failed to delete shared guide:", text);
+        setError("Could not delete the share link.");
+        return;
+      }
+
+      forgetShareToken(link.id);
+      setLink(null);
+    } catch (err) {
+      console.error(err);
+      setError("Network error while deleting the share link.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="glass-panel fade-in w-full max-w-md rounded-2xl border border-slate-800/80 p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-50 sm:text-base">
+              🔗 Share with classmates
+            </h3>
+            <p className="text-[11px] text-slate-400">
+              Anyone with the link can view “{title}” (read-only).
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] text-slate-300 hover:border-indigo-400"
+          >
+            Close
+          </button>
+        </div>
+
+        {link ? (
+          <div className="flex flex-col gap-3 text-xs">
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={absoluteUrl}
+                onFocus={(e) => e.target.select()}
+                className="min-w-0 flex-1 rounded-lg border border-slate-700/80 bg-slate-950/80 px-2.5 py-1.5 text-slate-100 outline-none"
+              />
+              <button
+                onClick={handleCopy}
+                className="rounded-lg border border-indigo-500/80 bg-indigo-500 px-3 py-1.5 font-semibold text-white hover:bg-indigo-400"
+              >
+                Copy
+              </button>
+            </div>
+            <p className="text-[11px] text-slate-400">
+              {link.expiresAt
+                ? `Expires ${new Date(link.expiresAt).toLocaleString()}.`
+                : "This link does not expire."}{" "}
+              You can delete it from this browser at any time.
+            </p>
+            <div className="flex justify-end">
+              <button
+                onClick={handleDelete}
+                disabled={isWorking}
+                className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] text-slate-300 hover:border-rose-400 hover:text-rose-200 disabled:opacity-50"
+              >
+                Delete link
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3 text-xs">
+            <div>
+              <p className="mb-1.5 text-[11px] uppercase tracking-wide text-slate-500">
+                Link expires after
+              </p>
+              <div className="grid grid-cols-4 gap-2">
+                {EXPIRY_CHOICES.map(({ days, label }) => (
+                  <button
+                    key={label}
+                    onClick={() => setExpiresInDays(days)}
+                    className={`rounded-lg border px-2 py-1.5 transition ${
+                      expiresInDays === days
+                        ? "border-indigo-400 bg-indigo-500/10 text-slate-50"
+                        : "border-slate-700/80 bg-slate-900/80 text-slate-300 hover:border-indigo-400/80"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={handleCreate}
+                disabled={isWorking}
+                className="rounded-lg border border-indigo-500/80 bg-indigo-500 px-3 py-1.5 font-semibold text-white hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isWorking ? (
+                  <span className="loading-dots">Creating link</span>
+                ) : (
+                  "Create share link"
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-xs text-rose-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
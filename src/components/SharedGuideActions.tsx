@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { forgetShareToken, getShareToken } from "@/lib/shareTokens";
+
+// Toolbar for the read-only shared guide page. The delete button only shows
+// up in the browser that created the link, since that's where the token is.
+export default function SharedGuideActions({ id }: { id: string }) {
+  const router = useRouter();
+  const [deleteToken, setDeleteToken] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setDeleteToken(getShareToken(id));
+  }, [id]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      alert("Share link copied ✅");
+    } catch (err) {
+      console.error(err);
+      alert("Could not copy to clipboard.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteToken || !confirm("Delete this shared guide for everyone?")) {
+      return;
+    }
+
+    setIsDeleting(true);
+
+    try {
+      const res = await fetch(`/api/guides/${id}`, {
+        method: "DELETE",
+        headers: { "X-Delete-Token": deleteToken },
+      });
+
+      if (!res.ok && res.status !== 404) {
+        const text = await res.text();
+        console.error("Failed to delete shared guide:", text);
+        alert("Could not delete this shared guide.");
+        return;
+      }
+
+      forgetShareToken(id);
+      router.push("/");
+    } catch (err) {
+      console.error(err);
+      alert("Network error while deleting the shared guide.");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-[11px] sm:text-xs">
+      <button
+        onClick={handleCopyLink}
+        className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-slate-200 hover:border-indigo-400 hover:bg-slate-900"
+      >
+        🔗 Copy link
+      </button>
+      {deleteToken && (
+        <button
+          onClick={handleDelete}
+          disabled={isDeleting}
+          className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-slate-300 hover:border-rose-400 hover:text-rose-200 disabled:opacity-50"
+        >
+          Delete shared guide
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import type { SourceFile, SourceProgress } from "@/lib/sources";
+
+const STATUS_STYLES: Record<SourceFile["status"], string> = {
+  queued: "text-slate-400",
+  reading: "text-indigo-200",
+  ready: "text-emerald-300",
+  error: "text-rose-300",
+};
+
+// Warnings listed in the tooltip; mammoth can report hundreds.
+const MAX_WARNINGS_SHOWN = 5;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+// "12 pages · 34,567 chars · 2 pages OCR'd"
+function describeReady(source: SourceFile): string {
+  return [
+    source.pageCount ? plural(source.pageCount, "page") : null,
+    `${source.text.length.toLocaleString()} chars`,
+    source.ocrPages ? `${plural(source.ocrPages, "page")} OCR'd` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function describeProgress(progress?: SourceProgress): string {
+  if (!progress) return "Extracting text";
+  const verb = progress.stage === "ocr" ? "Running OCR on" : "Reading";
+  return progress.pages > 1
+    ? `${verb} page ${progress.page} of ${progress.pages}`
+    : progress.stage === "ocr"
+      ? "Running OCR"
+      : "Extracting text";
+}
+
+export default function SourceList({
+  sources,
+  onMove,
+  onRemove,
+}: {
+  sources: SourceFile[];
+  onMove: (id: string, offset: -1 | 1) => void;
+  onRemove: (id: string) => void;
+}) {
+  return (
+    <ol className="flex max-h-40 flex-col gap-1.5 overflow-y-auto pr-1 text-[11px] sm:text-xs">
+      {sources.map((source, i) => (
+        <li
+          key={source.id}
+          className="flex items-center gap-2 rounded-lg border border-slate-700/80 bg-slate-900/70 px-2.5 py-1.5"
+        >
+          <span className="text-slate-500">{i + 1}.</span>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-slate-100" title={source.name}>
+              📎 {source.name}
+            </p>
+            <p className={`text-[10px] ${STATUS_STYLES[source.status]}`}>
+              {source.status === "queued" && "Waiting…"}
+              {source.status === "reading" && (
+                <span className="loading-dots">
+                  {describeProgress(source.progress)}
+                </span>
+              )}
+              {source.status === "ready" && describeReady(source)}
+              {source.status === "error" && (source.error || "Could not read file")}
+            </p>
+            {source.status === "ready" && source.warnings && source.warnings.length > 0 && (
+              <p
+                className="truncate text-[10px] text-amber-300"
+                title={source.warnings.slice(0, MAX_WARNINGS_SHOWN).join("\n")}
+              >
+                ⚠️ {plural(source.warnings.length, "warning")}: {source.warnings[0]}
+              </p>
+            )}
+            {source.status === "reading" && source.progress && (
+              <div className="mt-1 h-0.5 overflow-hidden rounded-full bg-slate-800">
+                <div
+                  className="h-full bg-indigo-500 transition-all"
+                  style={{
+                    width: `${(source.progress.page / source.progress.pages) * 100}%`,
+                  }}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-1 text-slate-400">
+            <button
+              onClick={() => onMove(source.id, -1)}
+              disabled={i === 0}
+              className="rounded px-1 hover:text-slate-100 disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => onMove(source.id, 1)}
+              disabled={i === sources.length - 1}
+              className="rounded px-1 hover:text-slate-100 disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onRemove(source.id)}
+              className="rounded px-1 hover:text-rose-300"
+              title={
+                source.status === "queued" || source.status === "reading"
+                  ? "Cancel"
+                  : "Remove"
+              }
+            >
+              ✕
+            </button>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
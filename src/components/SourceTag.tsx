@@ -0,0 +1,22 @@
+// Small badge citing where a concept or question came from: the source file
+// and/or the page of a PDF.
+export default function SourceTag({
+  source,
+  page,
+}: {
+  source?: string;
+  page?: number;
+}) {
+  if (!source && !page) return null;
+
+  const label = [source, page ? `p. ${page}` : null].filter(Boolean).join(" · ");
+
+  return (
+    <span
+      className="inline-block max-w-48 truncate rounded-full bg-slate-800/80 px-2 py-0.5 align-middle text-[10px] font-normal normal-case tracking-normal text-slate-400 ring-1 ring-slate-700"
+      title={`From ${label}`}
+    >
+      {source ? "📎" : "📄"} {label}
+    </span>
+  );
+}
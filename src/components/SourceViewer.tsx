@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { findQuote } from "@/lib/citations";
+
+// The study material with one supporting quote highlighted and scrolled into
+// view, opened from a concept's or question's "Source" badge.
+export default function SourceViewer({
+  text,
+  quote,
+  onClose,
+}: {
+  text: string;
+  quote: string;
+  onClose: () => void;
+}) {
+  const markRef = useRef<HTMLElement>(null);
+  const range = findQuote(text, quote);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: "center" });
+  }, [quote]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="glass-panel fade-in flex max-h-[85vh] w-full max-w-2xl flex-col rounded-2xl border border-slate-800/80 p-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-3 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-slate-50 sm:text-base">
+              ❝ Source passage
+            </h3>
+            <p className="truncate text-[11px] text-slate-400" title={quote}>
+              “{quote}”
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] text-slate-300 hover:border-indigo-400"
+          >
+            Close
+          </button>
+        </div>
+
+        {!range && (
+          <p className="mb-2 rounded-lg bg-amber-500/10 px-2.5 py-1.5 text-[11px] text-amber-200 ring-1 ring-amber-500/30">
+            This passage is not in the current material. It may have been edited
+            since the guide was generated.
+          </p>
+        )}
+
+        <div className="min-h-0 flex-1 overflow-y-auto rounded-xl border border-slate-800/80 bg-slate-950/60 p-3 text-[11px] leading-relaxed whitespace-pre-wrap text-slate-300 sm:text-xs">
+          {range ? (
+            <>
+              {text.slice(0, range.start)}
+              <mark
+                ref={markRef}
+                className="rounded bg-amber-300/30 px-0.5 text-amber-50"
+              >
+                {text.slice(range.start, range.end)}
+              </mark>
+              {text.slice(range.end)}
+            </>
+          ) : (
+            text
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+
+export const EDITOR_INPUT_CLASS =
+  "w-full rounded-lg border border-slate-700/80 bg-slate-950/80 px-2.5 py-1.5 text-xs text-slate-100 outline-none focus:border-indigo-400";
+
+/** Save and Cancel buttons shared by the guide editors. */
+export function EditorButtons({
+  onSave,
+  onCancel,
+  errors = [],
+}: {
+  onSave: () => void;
+  onCancel: () => void;
+  errors?: string[];
+}) {
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2">
+      <button
+        onClick={onSave}
+        className="rounded-lg border border-indigo-500/60 bg-indigo-500/10 px-2.5 py-1 text-[11px] text-indigo-100 hover:bg-indigo-500/20"
+      >
+        Save
+      </button>
+      <button
+        onClick={onCancel}
+        className="rounded-lg border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-[11px] text-slate-300 hover:border-indigo-400"
+      >
+        Cancel
+      </button>
+      <span className="text-[10px] text-slate-500">Markdown and $math$ supported</span>
+      {errors.length > 0 && (
+        <p className="w-full text-[11px] text-rose-400">{errors.join(" · ")}</p>
+      )}
+    </div>
+  );
+}
+
+// Inline editor for a summary. Changes are kept in a draft until saved, so
+// each save is one undo step.
+export default function TextEditor({
+  value,
+  rows = 6,
+  required = false,
+  onSave,
+  onCancel,
+}: {
+  value: string;
+  rows?: number;
+  required?: boolean;
+  onSave: (value: string) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSave = () => {
+    if (required && !draft.trim()) {
+      setErrors(["This text can't be empty"]);
+      return;
+    }
+    onSave(draft.trim());
+  };
+
+  return (
+    <div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={rows}
+        autoFocus
+        className={`${EDITOR_INPUT_CLASS} resize-y leading-relaxed`}
+      />
+      <EditorButtons onSave={handleSave} onCancel={onCancel} errors={errors} />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+// Branding, colors and section headings shared by the generator and the
+// read-only shared guide page.
+
+export const defaultConfig = {
+  background_color: "#050816",
+  surface_color: "#050816",
+  text_color: "#e2e8f0",
+  primary_color: "#6366f1",
+  secondary_color: "#8b5cf6",
+  font_family: "Inter",
+  font_size: 16,
+  app_title: "examAce",
+  tagline: "AI Study Guide Generator",
+  input_placeholder: "Paste your lecture notes or textbook content here...",
+  generate_button_text: "Generate Study Guide",
+  summary_heading: "Summary",
+  concepts_heading: "Key Concepts & Definitions",
+  questions_heading: "Practice Questions",
+  detailed_summary_heading: "Detailed Summary",
+  answer_key_heading: "Answer Key",
+};
+
+export type AppConfig = typeof defaultConfig;
+
+export const baseFontStack =
+  '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
@@ -0,0 +1,96 @@
+// Helpers for splitting long study material into overlapping chunks that
+// each fit comfortably in a single model request.
+
+// Inputs up to this length are sent to the model in one request.
+export const SINGLE_PASS_LIMIT = 10000;
+
+// Hard upper bound for a single generation request.
+export const MAX_INPUT_CHARS = 120000;
+
+export const CHUNK_SIZE = 8000;
+export const CHUNK_OVERLAP = 800;
+
+/**
+ * Find a natural break point (paragraph, then sentence, then word) at or
+ * before `end`, but not earlier than `minEnd`.
+ */
+function findBreak(text: string, minEnd: number, end: number): number {
+  const window = text.slice(minEnd, end);
+
+  const paragraph = window.lastIndexOf("\n\n");
+  if (paragraph !== -1) return minEnd + paragraph + 2;
+
+  const sentence = Math.max(
+    window.lastIndexOf(". "),
+    window.lastIndexOf("? "),
+    window.lastIndexOf("! "),
+    window.lastIndexOf(".\n")
+  );
+  if (sentence !== -1) return minEnd + sentence + 2;
+
+  const space = window.lastIndexOf(" ");
+  if (space !== -1) return minEnd + space + 1;
+
+  return end;
+}
+
+/**
+ * Split text into chunks of roughly `size` characters, each overlapping the
+ * previous one by about `overlap` characters so ideas that straddle a
+ * boundary are still seen whole by at least one request.
+ */
+export function splitIntoChunks(
+  text: string,
+  size: number = CHUNK_SIZE,
+  overlap: number = CHUNK_OVERLAP
+): string[] {
+  const clean = text.trim();
+  if (clean.length <= size) return clean ? [clean] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < clean.length) {
+    let end = Math.min(start + size, clean.length);
+    if (end < clean.length) {
+      end = findBreak(clean, start + Math.floor(size / 2), end);
+    }
+
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+
+    // Step back by the overlap, then forward to the next word boundary
+    let next = Math.max(end - overlap, start + 1);
+    const space = clean.indexOf(" ", next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+
+  return chunks.filter((chunk) => chunk.length > 0);
+}
+
+/**
+ * Run `fn` over every item with at most `limit` calls in flight, keeping the
+ * results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let cursor = 0;
+
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (cursor < items.length) {
+        const index = cursor++;
+        results[index] = await fn(items[index], index);
+      }
+    }
+  );
+
+  await Promise.all(workers);
+  return results;
+}
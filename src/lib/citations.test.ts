@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { clearVerification, verifyCitations } from "./citations";
+import type { StudyGuide } from "./studyGuide";
+
+const MATERIAL = "Osmosis is the movement of water across a semipermeable membrane.";
+
+const guide: StudyGuide = {
+  summary: "Water moves by osmosis.",
+  detailed_summary: "",
+  concepts: [
+    { term: "Osmosis", def: "Water movement", quote: "the movement of water across a semipermeable membrane", verified: false },
+    { term: "Diffusion", def: "Spreading out", quote: "Molecules spread from high to low concentration.", verified: true },
+  ],
+  questions: [],
+};
+
+describe("verifyCitations", () => {
+  it("replaces the flags with the result of checking each quote", () => {
+    const checked = verifyCitations(guide, MATERIAL);
+    expect(checked.concepts.map((c) => c.verified)).toEqual([true, false]);
+  });
+});
+
+describe("clearVerification", () => {
+  it("drops client-supplied flags and keeps the quotes", () => {
+    const cleared = clearVerification(guide);
+    expect(cleared.concepts.every((c) => !("verified" in c))).toBe(true);
+    expect(cleared.concepts[1].quote).toBe(guide.concepts[1].quote);
+  });
+});
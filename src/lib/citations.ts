@@ -0,0 +1,119 @@
+// Supporting quotes: every concept and question carries a short passage the
+// model copied from the material. The server checks that each quote really
+// occurs in the input and flags the items whose quote doesn't, since those
+// may be made up. The page uses the same matching to highlight a quote in
+// the source view.
+
+import type { StudyGuide } from "./studyGuide";
+
+// Quotes shorter than this (a bare term, "energy") prove nothing
+const MIN_QUOTE_CHARS = 12;
+
+const FOLDED_CHARS: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  " ": " ",
+};
+
+export type QuoteRange = { start: number; end: number };
+
+/**
+ * Lowercase `text`, collapse whitespace runs to one space and fold curly
+ * quotes and dashes, keeping the original index of every output character.
+ */
+function fold(text: string): { folded: string; index: number[] } {
+  let folded = "";
+  const index: number[] = [];
+  let afterSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = FOLDED_CHARS[text[i]] ?? text[i];
+    if (/\s/.test(char)) {
+      if (afterSpace) continue;
+      afterSpace = true;
+      folded += " ";
+      index.push(i);
+      continue;
+    }
+    afterSpace = false;
+    for (const lower of char.toLowerCase()) {
+      folded += lower;
+      index.push(i);
+    }
+  }
+
+  return { folded, index };
+}
+
+// The model may wrap a quote in quotation marks, shorten it with an ellipsis
+// or end it with a period the material doesn't have.
+function quoteFragments(quote: string): string[] {
+  return quote
+    .split(/\.{3}|…/)
+    .map((part) =>
+      fold(part)
+        .folded.trim()
+        .replace(/^["']+|["'.,;:!?]+$/g, "")
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Where `quote` occurs in `text`, ignoring case, spacing and typographic
+ * quotes. Fragments around an ellipsis must appear in order. Returns null
+ * for quotes that aren't found or are too short to mean anything.
+ */
+export function findQuote(text: string, quote: string): QuoteRange | null {
+  const fragments = quoteFragments(quote);
+  if (fragments.join(" ").length < MIN_QUOTE_CHARS) return null;
+
+  const { folded, index } = fold(text);
+  let from = 0;
+  let start = -1;
+
+  for (const fragment of fragments) {
+    const at = folded.indexOf(fragment, from);
+    if (at === -1) return null;
+    if (start === -1) start = at;
+    from = at + fragment.length;
+  }
+
+  return { start: index[start], end: index[from - 1] + 1 };
+}
+
+function withoutVerification<T extends { verified?: boolean }>(item: T): T {
+  const copy = { ...item };
+  delete copy.verified;
+  return copy;
+}
+
+/**
+ * Drop the `verified` flags of a guide sent by a client, where the material
+ * isn't at hand to check them again; only the server's own check sets them.
+ */
+export function clearVerification(guide: StudyGuide): StudyGuide {
+  return {
+    ...guide,
+    concepts: guide.concepts.map(withoutVerification),
+    questions: guide.questions.map(withoutVerification),
+  };
+}
+
+/**
+ * Mark every concept and question as verified when its quote is found in
+ * `text`. Items without a quote are unverified too.
+ */
+export function verifyCitations(guide: StudyGuide, text: string): StudyGuide {
+  const isFound = (quote?: string) => !!quote && findQuote(text, quote) !== null;
+
+  return {
+    ...guide,
+    concepts: guide.concepts.map((c) => ({ ...c, verified: isFound(c.quote) })),
+    questions: guide.questions.map((q) => ({ ...q, verified: isFound(q.quote) })),
+  };
+}
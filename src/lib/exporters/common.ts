@@ -0,0 +1,60 @@
+// Pieces shared by the document exporters: the options every exporter takes,
+// download file names and the guide's front-matter lines.
+
+import type { AppConfig } from "../appConfig";
+import type { Concept, StudyGuide } from "../studyGuide";
+
+export type DocumentOptions = {
+  /** Guide title, shown on the title page and used for the file name. */
+  title: string;
+  config: AppConfig;
+  /** Defaults to now. */
+  date?: Date;
+};
+
+// Thrown when a guide can't be exported in the chosen format. The message is
+// safe to show to end users.
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+const MAX_FILE_NAME_LENGTH = 80;
+
+/** A download name from the guide title: "Cell Biology: Ch. 2" → "Cell Biology - Ch. 2.pdf". */
+export function exportFileName(title: string, extension: string): string {
+  const base =
+    title
+      .replace(/[\u0000-\u001f]/g, "")
+      .replace(/\s*[\\/:|]\s*/g, " - ")
+      .replace(/[*?"<>]/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .replace(/^\.+|\.+$/g, "")
+      .slice(0, MAX_FILE_NAME_LENGTH)
+      .trim() || "study-guide";
+  return `${base}.${extension}`;
+}
+
+/** "source, p. 3" for concepts cited from a multi-file upload, or "". */
+export function conceptCitation(concept: Concept): string {
+  return [concept.source, concept.page ? `p. ${concept.page}` : null]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/** Subtitle lines for a title page. */
+export function titlePageLines(guide: StudyGuide, date: Date): string[] {
+  const counts = [
+    `${guide.concepts.length} key concept${guide.concepts.length === 1 ? "" : "s"}`,
+    `${guide.questions.length} practice question${guide.questions.length === 1 ? "" : "s"}`,
+  ];
+  const formatted = date.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  return [formatted, counts.join(" · ")];
+}
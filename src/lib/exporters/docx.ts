@@ -0,0 +1,280 @@
+// The study guide as a Word document, with the same layout as the PDF: a
+// title page, headed sections, the concepts as a table and the answer key on
+// its own page. Guide text keeps its bold, italic and code formatting; math
+// keeps its TeX source.
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { markdownToBlocks } from "../markdown";
+import type { TextRun as MarkdownRun } from "../markdown";
+import { describeExtraSection } from "../presets";
+import type { StudyGuide } from "../studyGuide";
+import { describeAnswer, optionLabel, QUESTION_TYPE_LABELS } from "../studyGuide";
+import type { DocumentOptions } from "./common";
+import { conceptCitation, titlePageLines } from "./common";
+
+const ACCENT = "4F46E5";
+const MUTED = "475569";
+const HEADER_FILL = "E0E7FF";
+const CODE_FONT = "Consolas";
+
+function textRuns(runs: MarkdownRun[]): TextRun[] {
+  return runs.flatMap((run) =>
+    run.text.split("\n").map(
+      (line, i) =>
+        new TextRun({
+          text: line,
+          bold: run.bold,
+          italics: run.italic,
+          font: run.code ? CODE_FONT : undefined,
+          break: i > 0 ? 1 : undefined,
+        })
+    )
+  );
+}
+
+/** Paragraphs for a Markdown string; `prefix` runs open the first paragraph. */
+function markdownParagraphs(text: string, prefix: TextRun[] = [], indent = 0): Paragraph[] {
+  const blocks = markdownToBlocks(text);
+  if (blocks.length === 0) blocks.push({ kind: "paragraph", runs: [] });
+
+  return blocks.map((block, i) => {
+    const lead = i === 0 ? prefix : [];
+    if (block.kind === "code") {
+      return new Paragraph({
+        children: [...lead, ...textRuns(block.runs)],
+        shading: { type: ShadingType.CLEAR, color: "auto", fill: "F1F5F9" },
+        indent: { left: indent },
+      });
+    }
+    if (block.kind === "list-item") {
+      const bullet = block.marker === "•" ? { level: block.depth ?? 0 } : undefined;
+      return new Paragraph({
+        children: [
+          ...lead,
+          ...(bullet ? [] : [new TextRun(`${block.marker} `)]),
+          ...textRuns(block.runs),
+        ],
+        bullet,
+        indent: bullet ? undefined : { left: indent + 360 * ((block.depth ?? 0) + 1) },
+      });
+    }
+    return new Paragraph({
+      children: [...lead, ...textRuns(block.runs)],
+      indent: { left: indent },
+    });
+  });
+}
+
+function heading(text: string, pageBreakBefore = false): Paragraph {
+  return new Paragraph({ text, heading: HeadingLevel.HEADING_1, pageBreakBefore });
+}
+
+function muted(text: string): Paragraph {
+  return new Paragraph({ children: [new TextRun({ text, italics: true, color: MUTED })] });
+}
+
+function cell(children: Paragraph[], header = false, width?: number): TableCell {
+  return new TableCell({
+    children,
+    width: width ? { size: width, type: WidthType.PERCENTAGE } : undefined,
+    shading: header ? { type: ShadingType.CLEAR, color: "auto", fill: HEADER_FILL } : undefined,
+    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+  });
+}
+
+/** A full-width table; body cells are Markdown. */
+function table(head: string[], body: string[][], widths?: number[]): Table {
+  const border = { style: BorderStyle.SINGLE, size: 4, color: "CBD5E1" };
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: {
+      top: border,
+      bottom: border,
+      left: border,
+      right: border,
+      insideHorizontal: border,
+      insideVertical: border,
+    },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: head.map((text, i) =>
+          cell(
+            [new Paragraph({ children: [new TextRun({ text, bold: true })] })],
+            true,
+            widths?.[i]
+          )
+        ),
+      }),
+      ...body.map(
+        (row) =>
+          new TableRow({
+            children: row.map((text, i) =>
+              cell(
+                i === 0 && widths
+                  ? [new Paragraph({ children: [new TextRun({ text, bold: true })] })]
+                  : markdownParagraphs(text),
+                false,
+                widths?.[i]
+              )
+            ),
+          })
+      ),
+    ],
+  });
+}
+
+function titlePage(guide: StudyGuide, options: DocumentOptions): Paragraph[] {
+  return [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 3600 },
+      children: [
+        new TextRun({ text: options.config.app_title, bold: true, color: ACCENT, size: 24 }),
+      ],
+    }),
+    new Paragraph({ text: options.title, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: "Study Guide", color: MUTED, size: 28 })],
+    }),
+    ...titlePageLines(guide, options.date ?? new Date()).map(
+      (line, i) =>
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { before: i === 0 ? 480 : 0 },
+          children: [new TextRun({ text: line, color: MUTED })],
+        })
+    ),
+  ];
+}
+
+export async function buildGuideDocx(guide: StudyGuide, options: DocumentOptions): Promise<Blob> {
+  const { config } = options;
+  const body: (Paragraph | Table)[] = [];
+
+  body.push(heading(config.summary_heading, true));
+  body.push(...markdownParagraphs(guide.summary || "No summary generated."));
+
+  body.push(heading(config.concepts_heading));
+  if (guide.concepts.length === 0) {
+    body.push(muted("No key concepts generated."));
+  } else {
+    body.push(
+      table(
+        ["Term", "Definition"],
+        guide.concepts.map((c) => {
+          const cite = conceptCitation(c);
+          const definition = [
+            c.def,
+            c.explanation,
+            ...(c.examples ?? []).map((example) => `*e.g.* ${example}`),
+          ].filter(Boolean);
+          return [cite ? `${c.term} (${cite})` : c.term, definition.join("\n\n")];
+        }),
+        [28, 72]
+      )
+    );
+  }
+
+  for (const [key, items] of Object.entries(guide.extras ?? {})) {
+    if (items.length === 0) continue;
+    const fields = Object.keys(items[0]);
+    body.push(heading(describeExtraSection(key).heading));
+    body.push(
+      table(
+        fields.map((field) => field.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase())),
+        items.map((item) => fields.map((field) => item[field] ?? ""))
+      )
+    );
+  }
+
+  body.push(heading(config.questions_heading));
+  if (guide.questions.length === 0) {
+    body.push(muted("No questions generated."));
+  } else {
+    guide.questions.forEach((q, i) => {
+      body.push(
+        ...markdownParagraphs(q.prompt, [new TextRun({ text: `${i + 1}. `, bold: true })])
+      );
+      if (q.type === "multiple_choice") {
+        q.options.forEach((option, j) =>
+          body.push(...markdownParagraphs(option, [new TextRun(`${optionLabel(j)}) `)], 360))
+        );
+      } else {
+        body.push(muted(QUESTION_TYPE_LABELS[q.type]));
+      }
+    });
+  }
+
+  body.push(heading(config.detailed_summary_heading));
+  body.push(...markdownParagraphs(guide.detailed_summary || "No detailed summary generated."));
+
+  if (guide.questions.length > 0) {
+    body.push(heading(config.answer_key_heading, true));
+    body.push(
+      table(
+        ["#", "Answer", "Explanation"],
+        guide.questions.map((q, i) => [
+          String(i + 1),
+          `${describeAnswer(q)}  \n*[${q.difficulty}]*`,
+          q.explanation,
+        ]),
+        [6, 34, 60]
+      )
+    );
+  }
+
+  const doc = new Document({
+    title: options.title,
+    creator: config.app_title,
+    styles: {
+      default: { document: { run: { font: "Calibri", size: 22 } } },
+      paragraphStyles: [
+        {
+          id: "Heading1",
+          name: "Heading 1",
+          basedOn: "Normal",
+          next: "Normal",
+          run: { size: 30, bold: true, color: ACCENT },
+          paragraph: { spacing: { before: 360, after: 120 } },
+        },
+      ],
+    },
+    sections: [
+      {
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({ children: [PageNumber.CURRENT], color: MUTED, size: 18 }),
+                ],
+              }),
+            ],
+          }),
+        },
+        properties: { titlePage: true },
+        children: [...titlePage(guide, options), ...body],
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+}
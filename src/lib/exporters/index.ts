@@ -0,0 +1,91 @@
+// Registry of study guide export formats. Each exporter turns a guide into a
+// downloadable file; the document formats load their libraries only when
+// used. Add a format by adding an entry here.
+
+import type { StudyGuide } from "../studyGuide";
+import type { DocumentOptions } from "./common";
+import { exportFileName } from "./common";
+
+export type { DocumentOptions } from "./common";
+export { ExportError } from "./common";
+
+export type GuideExporter = {
+  id: string;
+  label: string;
+  icon: string;
+  /** Shown as the format's tooltip. */
+  description: string;
+  extension: string;
+  /** Added to the guide title in the file name. */
+  fileSuffix?: string;
+  build: (guide: StudyGuide, options: DocumentOptions) => Promise<Blob>;
+};
+
+function textFile(text: string, type: string): Blob {
+  return new Blob([text], { type: `${type};charset=utf-8` });
+}
+
+export const EXPORTERS: GuideExporter[] = [
+  {
+    id: "pdf",
+    label: "PDF",
+    icon: "🧾",
+    description: "Styled document with a title page, concept table and answer key",
+    extension: "pdf",
+    build: async (guide, options) => (await import("./pdf")).buildGuidePdf(guide, options),
+  },
+  {
+    id: "docx",
+    label: "Word (.docx)",
+    icon: "📝",
+    description: "Editable Word document with the same layout as the PDF",
+    extension: "docx",
+    build: async (guide, options) => (await import("./docx")).buildGuideDocx(guide, options),
+  },
+  {
+    id: "worksheet",
+    label: "Worksheet (PDF)",
+    icon: "✏️",
+    description: "Printable questions with room to answer; answers on a separate page",
+    extension: "pdf",
+    fileSuffix: " (worksheet)",
+    build: async (guide, options) =>
+      (await import("./worksheet")).buildWorksheetPdf(guide, options),
+  },
+  {
+    id: "markdown",
+    label: "Markdown",
+    icon: "📓",
+    description: "A .md note for Notion, Obsidian and other Markdown editors",
+    extension: "md",
+    build: async (guide, options) =>
+      textFile((await import("./markdown")).buildGuideMarkdown(guide, options), "text/markdown"),
+  },
+  {
+    id: "json",
+    label: "JSON",
+    icon: "🧬",
+    description: "The complete guide as data, which can be loaded back into the app",
+    extension: "json",
+    build: async (guide, options) =>
+      textFile((await import("./json")).buildGuideJson(guide, options), "application/json"),
+  },
+  {
+    id: "txt",
+    label: "Plain text",
+    icon: "📄",
+    description: "The guide as a .txt file",
+    extension: "txt",
+    build: async (guide, options) =>
+      textFile((await import("./text")).buildGuideText(guide, options), "text/plain"),
+  },
+];
+
+export function findExporter(id: string): GuideExporter | undefined {
+  return EXPORTERS.find((exporter) => exporter.id === id);
+}
+
+/** The download name for a guide in the given format. */
+export function exporterFileName(exporter: GuideExporter, title: string): string {
+  return exportFileName(`${title}${exporter.fileSuffix ?? ""}`, exporter.extension);
+}
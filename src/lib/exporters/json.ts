@@ -0,0 +1,35 @@
+// The full study guide as a versioned JSON file, the one export the app can
+// read back. Bump GUIDE_FILE_VERSION when the StudyGuide shape changes in a
+// way older readers can't handle.
+
+import type { StudyGuide } from "../studyGuide";
+import type { DocumentOptions } from "./common";
+
+export const GUIDE_FILE_FORMAT = "examace-study-guide";
+export const GUIDE_FILE_VERSION = 1;
+
+export type GuideFile = {
+  format: typeof GUIDE_FILE_FORMAT;
+  version: number;
+  title: string;
+  exported_at: string;
+  guide: StudyGuide;
+};
+
+export function buildGuideJson(guide: StudyGuide, options: DocumentOptions): string {
+  // Fixed key order, so exports of the same guide diff cleanly
+  const file: GuideFile = {
+    format: GUIDE_FILE_FORMAT,
+    version: GUIDE_FILE_VERSION,
+    title: options.title,
+    exported_at: (options.date ?? new Date()).toISOString(),
+    guide: {
+      summary: guide.summary,
+      detailed_summary: guide.detailed_summary,
+      concepts: guide.concepts,
+      questions: guide.questions,
+      ...(guide.extras ? { extras: guide.extras } : {}),
+    },
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
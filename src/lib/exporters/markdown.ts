@@ -0,0 +1,105 @@
+// The study guide as a Markdown note for Notion, Obsidian and other editors
+// that import .md files. Guide text is already Markdown (with $...$ math,
+// which both render), so it is nested under list items rather than converted.
+
+import { describeExtraSection } from "../presets";
+import type { StudyGuide } from "../studyGuide";
+import { describeAnswer, optionLabel, QUESTION_TYPE_LABELS } from "../studyGuide";
+import type { DocumentOptions } from "./common";
+import { conceptCitation, titlePageLines } from "./common";
+
+// Continuation lines of a list item line up with its text
+function nest(text: string, indent: string): string {
+  return text.trim().replace(/\n/g, `\n${indent}`).replace(/\n[ ]+\n/g, "\n\n");
+}
+
+export function buildGuideMarkdown(guide: StudyGuide, options: DocumentOptions): string {
+  const { config } = options;
+  const parts: string[] = [];
+
+  parts.push(`# ${options.title}`);
+  parts.push(`*${titlePageLines(guide, options.date ?? new Date()).join(" · ")}*`);
+
+  parts.push(`## ${config.summary_heading}`);
+  parts.push(guide.summary.trim() || "*No summary generated.*");
+
+  parts.push(`## ${config.concepts_heading}`);
+  if (guide.concepts.length === 0) {
+    parts.push("*No key concepts generated.*");
+  } else {
+    const items = guide.concepts.map((c) => {
+      const cite = conceptCitation(c);
+      const lines = [`- **${c.term}**${cite ? ` *(${cite})*` : ""}: ${nest(c.def, "  ")}`];
+      if (c.explanation) lines.push(`\n  ${nest(c.explanation, "  ")}`);
+      if (c.examples && c.examples.length > 0) {
+        lines.push("");
+        c.examples.forEach((example) => lines.push(`  - *e.g.* ${nest(example, "    ")}`));
+      }
+      return lines.join("\n");
+    });
+    // Blank lines between items only when some concept has more than a line
+    const loose = guide.concepts.some((c) => c.explanation || c.examples || c.def.includes("\n"));
+    parts.push(items.join(loose ? "\n\n" : "\n"));
+  }
+
+  for (const [key, items] of Object.entries(guide.extras ?? {})) {
+    if (items.length === 0) continue;
+    parts.push(`## ${describeExtraSection(key).heading}`);
+    parts.push(
+      items
+        .map((item) => {
+          const [[, title], ...rest] = Object.entries(item);
+          return [
+            `- **${nest(title, "  ")}**`,
+            ...rest.map(([field, value]) => `  - ${field.replace(/_/g, " ")}: ${nest(value, "    ")}`),
+          ].join("\n");
+        })
+        .join("\n")
+    );
+  }
+
+  parts.push(`## ${config.questions_heading}`);
+  if (guide.questions.length === 0) {
+    parts.push("*No questions generated.*");
+  } else {
+    parts.push(
+      guide.questions
+        .map((q, i) => {
+          const number = `${i + 1}.`;
+          const indent = " ".repeat(number.length + 1);
+          const lines = [`${number} ${nest(q.prompt, indent)}`, ""];
+          if (q.type === "multiple_choice") {
+            q.options.forEach((option, j) =>
+              lines.push(`${indent}- ${optionLabel(j)}) ${nest(option, `${indent}  `)}`)
+            );
+          } else {
+            lines.push(`${indent}*${QUESTION_TYPE_LABELS[q.type]}*`);
+          }
+          return lines.join("\n");
+        })
+        .join("\n\n")
+    );
+  }
+
+  parts.push(`## ${config.detailed_summary_heading}`);
+  parts.push(guide.detailed_summary.trim() || "*No detailed summary generated.*");
+
+  if (guide.questions.length > 0) {
+    parts.push(`## ${config.answer_key_heading}`);
+    parts.push(
+      guide.questions
+        .map((q, i) => {
+          const number = `${i + 1}.`;
+          const indent = " ".repeat(number.length + 1);
+          return [
+            `${number} **${nest(describeAnswer(q), indent)}** *(${q.difficulty})*`,
+            "",
+            `${indent}${nest(q.explanation, indent)}`,
+          ].join("\n");
+        })
+        .join("\n\n")
+    );
+  }
+
+  return `${parts.join("\n\n")}\n`;
+}
@@ -0,0 +1,92 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { defaultConfig } from "../appConfig";
+import type { StudyGuide } from "../studyGuide";
+import { buildGuidePdf, PdfWriter } from "./pdf";
+import { loadPdfFonts, PDF_FONT_FILES } from "./pdfFonts";
+
+const guide = (summary: string): StudyGuide => ({
+  summary,
+  detailed_summary: "",
+  concepts: [],
+  questions: [],
+});
+
+// What /api/fonts serves, read straight from node_modules
+async function readFont(file: string): Promise<ArrayBuffer> {
+  const data = await readFile(path.join(process.cwd(), "node_modules", PDF_FONT_FILES[file]));
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+async function pdfSource(blob: Blob): Promise<string> {
+  return Buffer.from(await blob.arrayBuffer()).toString("latin1");
+}
+
+describe("loadPdfFonts", () => {
+  const fakeFont = async () => new ArrayBuffer(4);
+
+  it("keeps the built-in fonts for WinAnsi text", async () => {
+    const load = vi.fn(fakeFont);
+    expect(await loadPdfFonts("Café – “naïve” … € 5 · $\\Delta x$", load)).toBeNull();
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it("picks DejaVu Sans for Greek, Cyrillic and math", async () => {
+    const fonts = await loadPdfFonts("Привет, Δx ≤ π", fakeFont);
+    expect(fonts?.family).toBe("DejaVuSans");
+    expect(Object.keys(fonts?.files ?? {})).toContain("DejaVuSansMono.ttf");
+  });
+
+  it("picks a Noto Sans font for Chinese, Japanese and Korean", async () => {
+    expect((await loadPdfFonts("细胞是生命的基本单位。", fakeFont))?.family).toBe("NotoSansSC");
+    expect((await loadPdfFonts("細胞はカタカナ", fakeFont))?.family).toBe("NotoSansSC");
+    expect((await loadPdfFonts("세포는 생명의 단위", fakeFont))?.family).toBe("NotoSansKR");
+  });
+
+  it("reports fonts that fail to download", async () => {
+    const offline = async (): Promise<ArrayBuffer> => {
+      throw new TypeError("Failed to fetch");
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(loadPdfFonts("세포", offline)).rejects.toThrow(/couldn't be downloaded/);
+  });
+});
+
+describe("PdfWriter.clean", () => {
+  it("replaces what the built-in fonts can't draw", () => {
+    expect(new PdfWriter().clean("Δx in café")).toBe("?x in café");
+  });
+
+  it("replaces what the embedded font has no glyph for", async () => {
+    const writer = new PdfWriter(await loadPdfFonts("Привет", readFont));
+    expect(writer.clean("Привет 🙂\nΔx")).toBe("Привет ?\nΔx");
+  });
+});
+
+describe("buildGuidePdf", () => {
+  const options = { title: "Guide", config: defaultConfig };
+
+  it("exports Latin text with the built-in fonts", async () => {
+    const load = vi.fn(readFont);
+    const blob = await buildGuidePdf(guide("Les cellules – « résumé »"), options, load);
+    expect(load).not.toHaveBeenCalled();
+    expect(await pdfSource(blob)).not.toContain("/BaseFont /DejaVuSans");
+  });
+
+  it("embeds a Unicode font for other scripts", async () => {
+    const russian = { ...options, title: "Биология" };
+    const blob = await buildGuidePdf(guide("Клетка — основа жизни 🙂"), russian, readFont);
+    expect(await pdfSource(blob)).toContain("/BaseFont /DejaVuSans");
+  });
+
+  it("only looks at text the PDF prints", async () => {
+    const load = vi.fn(readFont);
+    const quoted: StudyGuide = {
+      ...guide("Cells"),
+      concepts: [{ term: "Cell", def: "The unit of life", quote: "Клетка — основа жизни" }],
+    };
+    await buildGuidePdf(quoted, options, load);
+    expect(load).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,435 @@
+// The study guide as a PDF document: a title page, one headed section per
+// part of the guide, the concepts as a table and the answer key on its own
+// pages. Guide text is laid out from its Markdown blocks (bold, italic and
+// code runs); math keeps its TeX source.
+//
+// Guides in the built-in fonts' WinAnsi range use Helvetica and Courier;
+// others embed a Unicode font (see pdfFonts.ts). Characters the chosen font
+// has no glyph for are drawn as "?". The writer and section helpers are
+// shared with the worksheet export.
+
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { markdownToBlocks, markdownToText } from "../markdown";
+import type { TextBlock, TextRun } from "../markdown";
+import { describeExtraSection } from "../presets";
+import type { PracticeQuestion, StudyGuide } from "../studyGuide";
+import { describeAnswer, optionLabel, QUESTION_TYPE_LABELS } from "../studyGuide";
+import type { DocumentOptions } from "./common";
+import { conceptCitation, titlePageLines } from "./common";
+import type { FontLoader, PdfFonts, PdfFontStyle } from "./pdfFonts";
+import { isWinAnsiCharacter, loadPdfFonts } from "./pdfFonts";
+
+type Rgb = [number, number, number];
+
+export const MARGIN = 56;
+const BODY_SIZE = 10.5;
+const CODE_SIZE = 9;
+const LINE_HEIGHT = 1.4;
+const INDENT = 16;
+
+export const INK: Rgb = [15, 23, 42];
+export const MUTED: Rgb = [71, 85, 105];
+export const ACCENT: Rgb = [79, 70, 229];
+const CODE_FILL: Rgb = [241, 245, 249];
+
+function fontStyle(run: TextRun): PdfFontStyle {
+  if (run.bold && run.italic) return "bolditalic";
+  if (run.bold) return "bold";
+  if (run.italic) return "italic";
+  return "normal";
+}
+
+// What jsPDF keeps of an added TrueType font: its character to glyph map
+type EmbeddedFont = { metadata: { cmap: { unicode: { codeMap: Record<number, number> } } } };
+
+export class PdfWriter {
+  readonly doc = new jsPDF({ unit: "pt", format: "a4" });
+  readonly pageWidth = this.doc.internal.pageSize.getWidth();
+  readonly pageHeight = this.doc.internal.pageSize.getHeight();
+  readonly contentWidth = this.pageWidth - MARGIN * 2;
+  private readonly sans: string = "helvetica";
+  private readonly mono: string = "courier";
+  private readonly canDraw: (char: string) => boolean = isWinAnsiCharacter;
+  y = MARGIN;
+
+  constructor(fonts: PdfFonts | null = null) {
+    if (!fonts) return;
+    for (const [file, data] of Object.entries(fonts.files)) this.doc.addFileToVFS(file, data);
+    for (const style of ["normal", "bold", "italic", "bolditalic"] as const) {
+      this.doc.addFont(fonts.styles[style] ?? fonts.styles.normal, fonts.family, style);
+    }
+    this.sans = fonts.family;
+    this.mono = `${fonts.family}Mono`;
+    this.doc.addFont(fonts.mono ?? fonts.styles.normal, this.mono, "normal");
+
+    this.doc.setFont(fonts.family, "normal");
+    const { codeMap } = (this.doc.getFont() as unknown as EmbeddedFont).metadata.cmap.unicode;
+    this.canDraw = (char) => (char.codePointAt(0) ?? 0) in codeMap;
+  }
+
+  font(style: PdfFontStyle = "normal") {
+    this.doc.setFont(this.sans, style);
+  }
+
+  monoFont() {
+    this.doc.setFont(this.mono, "normal");
+  }
+
+  /** `text` with the characters the fonts have no glyph for replaced by "?". */
+  clean(text: string): string {
+    return text.replace(/\S/gu, (char) => (this.canDraw(char) ? char : "?"));
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  /** Start a new page unless `height` more points fit on this one. */
+  ensureSpace(height: number) {
+    if (this.y + height > this.pageHeight - MARGIN) this.newPage();
+  }
+
+  gap(points: number) {
+    this.y += points;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(60);
+    this.gap(this.y === MARGIN ? 0 : 12);
+    this.font("bold");
+    this.doc.setFontSize(15);
+    this.doc.setTextColor(...ACCENT);
+    this.doc.text(this.clean(text), MARGIN, this.y, { baseline: "top" });
+    this.y += 22;
+    this.doc.setDrawColor(203, 213, 225);
+    this.doc.setLineWidth(0.75);
+    this.doc.line(MARGIN, this.y, this.pageWidth - MARGIN, this.y);
+    this.y += 10;
+  }
+
+  /** A list marker or question number ending just left of `x`, on the current line. */
+  marker(text: string, x: number, bold = false) {
+    this.ensureSpace(BODY_SIZE * LINE_HEIGHT);
+    this.font(bold ? "bold" : "normal");
+    this.doc.setFontSize(BODY_SIZE);
+    this.doc.setTextColor(...INK);
+    this.doc.text(this.clean(text), x - 4, this.y, { baseline: "top", align: "right" });
+  }
+
+  /** Word-wrapped runs from `x` to the right margin. */
+  runs(runs: TextRun[], x: number, size = BODY_SIZE, color: Rgb = INK) {
+    const lineHeight = size * LINE_HEIGHT;
+    const right = this.pageWidth - MARGIN;
+    let cursor = x;
+
+    const newLine = () => {
+      this.y += lineHeight;
+      cursor = x;
+      this.ensureSpace(lineHeight);
+    };
+
+    this.ensureSpace(lineHeight);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+
+    for (const run of runs) {
+      if (run.code) this.monoFont();
+      else this.font(fontStyle(run));
+
+      for (const token of this.clean(run.text).split(/(\n|[ \t]+)/)) {
+        if (!token) continue;
+        if (token === "\n") {
+          newLine();
+          continue;
+        }
+        if (/^[ \t]+$/.test(token)) {
+          if (cursor > x) cursor += this.doc.getTextWidth(" ");
+          continue;
+        }
+
+        const width = this.doc.getTextWidth(token);
+        if (cursor + width > right && cursor > x) newLine();
+        if (width <= right - x) {
+          this.doc.text(token, cursor, this.y, { baseline: "top" });
+          cursor += width;
+          continue;
+        }
+        // A word longer than the line (URLs, formulas) is broken up
+        const pieces = this.doc.splitTextToSize(token, right - x) as string[];
+        pieces.forEach((piece, i) => {
+          if (i > 0) newLine();
+          this.doc.text(piece, cursor, this.y, { baseline: "top" });
+          cursor += this.doc.getTextWidth(piece);
+        });
+      }
+    }
+    this.y += lineHeight;
+  }
+
+  code(text: string, x: number) {
+    const lineHeight = CODE_SIZE * LINE_HEIGHT;
+    this.monoFont();
+    this.doc.setFontSize(CODE_SIZE);
+    const lines = this.clean(text)
+      .split("\n")
+      .flatMap(
+        (line) => this.doc.splitTextToSize(line || " ", this.pageWidth - MARGIN - x - 12) as string[]
+      );
+
+    this.gap(2);
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.setFillColor(...CODE_FILL);
+      this.doc.rect(x, this.y - 1, this.pageWidth - MARGIN - x, lineHeight, "F");
+      this.doc.setTextColor(...INK);
+      this.doc.text(line, x + 6, this.y + 1, { baseline: "top" });
+      this.y += lineHeight;
+    }
+    this.gap(4);
+  }
+
+  blocks(blocks: TextBlock[], x = MARGIN) {
+    for (const block of blocks) {
+      if (block.kind === "code") {
+        this.code(block.runs.map((run) => run.text).join(""), x);
+        continue;
+      }
+      if (block.kind === "list-item") {
+        const itemX = x + INDENT * ((block.depth ?? 0) + 1);
+        this.marker(block.marker ?? "•", itemX);
+        this.runs(block.runs, itemX);
+        continue;
+      }
+      this.runs(block.runs, x);
+      this.gap(4);
+    }
+  }
+
+  /** Ruled lines to write an answer on. */
+  ruledLines(count: number, x: number) {
+    const spacing = 24;
+    this.doc.setDrawColor(203, 213, 225);
+    this.doc.setLineWidth(0.5);
+    for (let i = 0; i < count; i++) {
+      this.ensureSpace(spacing);
+      this.y += spacing;
+      this.doc.line(x, this.y, this.pageWidth - MARGIN, this.y);
+    }
+    this.gap(8);
+  }
+
+  markdown(text: string, x = MARGIN) {
+    this.blocks(markdownToBlocks(text), x);
+  }
+
+  muted(text: string, x = MARGIN) {
+    this.runs([{ text, italic: true }], x, BODY_SIZE - 1, MUTED);
+  }
+
+  table(head: string[], body: string[][], firstColumnWidth?: number) {
+    autoTable(this.doc, {
+      startY: this.y,
+      head: [head.map((cell) => this.clean(cell))],
+      body: body.map((row) => row.map((cell) => this.clean(cell))),
+      theme: "grid",
+      margin: { top: MARGIN, right: MARGIN, bottom: MARGIN, left: MARGIN },
+      styles: { font: this.sans, fontSize: 9.5, cellPadding: 5, valign: "top", textColor: INK },
+      headStyles: { fillColor: ACCENT, textColor: [255, 255, 255], fontStyle: "bold" },
+      columnStyles: firstColumnWidth
+        ? { 0: { cellWidth: firstColumnWidth, fontStyle: "bold" } }
+        : {},
+    });
+    const { finalY } = (this.doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable;
+    this.y = finalY + 12;
+  }
+}
+
+function titlePage(writer: PdfWriter, guide: StudyGuide, options: DocumentOptions) {
+  const { doc, pageWidth, pageHeight } = writer;
+  const center = pageWidth / 2;
+
+  doc.setFillColor(...ACCENT);
+  doc.rect(0, 0, pageWidth, 8, "F");
+
+  writer.font("bold");
+  doc.setFontSize(12);
+  doc.setTextColor(...ACCENT);
+  doc.text(writer.clean(options.config.app_title), center, pageHeight * 0.3, { align: "center" });
+
+  doc.setFontSize(26);
+  doc.setTextColor(...INK);
+  const title = writer.clean(options.title);
+  const titleLines = doc.splitTextToSize(title, writer.contentWidth) as string[];
+  doc.text(titleLines, center, pageHeight * 0.3 + 40, { align: "center" });
+
+  writer.font();
+  doc.setFontSize(13);
+  doc.setTextColor(...MUTED);
+  let y = pageHeight * 0.3 + 40 + titleLines.length * 32 + 8;
+  doc.text("Study Guide", center, y, { align: "center" });
+
+  doc.setFontSize(10.5);
+  y += 36;
+  for (const line of titlePageLines(guide, options.date ?? new Date())) {
+    doc.text(writer.clean(line), center, y, { align: "center" });
+    y += 16;
+  }
+}
+
+/** Guide title and page numbers at the bottom of the pages after `skip`. */
+export function footers(writer: PdfWriter, title: string, skip = 0) {
+  const { doc, pageWidth, pageHeight } = writer;
+  const pages = doc.getNumberOfPages();
+  for (let page = skip + 1; page <= pages; page++) {
+    doc.setPage(page);
+    writer.font();
+    doc.setFontSize(8.5);
+    doc.setTextColor(...MUTED);
+    const label = doc.splitTextToSize(writer.clean(title), writer.contentWidth - 80)[0] as string;
+    doc.text(label, MARGIN, pageHeight - MARGIN / 2);
+    doc.text(`${page - skip} / ${pages - skip}`, pageWidth - MARGIN, pageHeight - MARGIN / 2, {
+      align: "right",
+    });
+  }
+}
+
+/**
+ * Numbered questions with their options. `answerSpace` adds what a
+ * worksheet needs to be filled in: True / False to circle and ruled lines
+ * for short answers.
+ */
+export function questionList(
+  writer: PdfWriter,
+  questions: PracticeQuestion[],
+  answerSpace = false
+) {
+  const x = MARGIN + INDENT + 4;
+  questions.forEach((q, i) => {
+    writer.ensureSpace(48);
+    writer.marker(`${i + 1}.`, x, true);
+    writer.markdown(q.prompt, x);
+    if (q.type === "multiple_choice") {
+      q.options.forEach((option, j) => {
+        writer.marker(`${optionLabel(j)})`, x + INDENT + 4);
+        writer.runs(markdownToBlocks(option).flatMap((b) => b.runs), x + INDENT + 4);
+      });
+    } else if (!answerSpace) {
+      writer.muted(QUESTION_TYPE_LABELS[q.type], x);
+    } else if (q.type === "true_false") {
+      writer.runs([{ text: "Circle one:", italic: true }, { text: " True / False" }], x);
+    } else {
+      writer.ruledLines(4, x);
+    }
+    writer.gap(answerSpace ? 14 : 8);
+  });
+}
+
+/** The answer key as a table, starting on a new page. */
+export function answerKey(writer: PdfWriter, questions: PracticeQuestion[], heading: string) {
+  writer.newPage();
+  writer.heading(heading);
+  writer.table(
+    ["#", "Answer", "Explanation"],
+    questions.map((q, i) => [
+      String(i + 1),
+      `${markdownToText(describeAnswer(q))}\n[${q.difficulty}]`,
+      markdownToText(q.explanation),
+    ]),
+    28
+  );
+}
+
+/**
+ * Everything the PDF exports print, to pick the fonts by. Quotes and other
+ * fields the documents leave out don't count.
+ */
+export function printedText(guide: StudyGuide, options: DocumentOptions): string {
+  const { title, config } = options;
+  return JSON.stringify([
+    title,
+    titlePageLines(guide, options.date ?? new Date()),
+    config.app_title,
+    config.summary_heading,
+    config.concepts_heading,
+    config.questions_heading,
+    config.detailed_summary_heading,
+    config.answer_key_heading,
+    guide.summary,
+    guide.detailed_summary,
+    guide.concepts.map((c) => [c.term, c.def, c.explanation, c.examples, conceptCitation(c)]),
+    guide.questions.map((q) => [
+      q.prompt,
+      q.type === "multiple_choice" ? q.options : null,
+      describeAnswer(q),
+      q.explanation,
+    ]),
+    Object.entries(guide.extras ?? {}).map(([key, items]) => [
+      describeExtraSection(key).heading,
+      items,
+    ]),
+  ]);
+}
+
+export async function buildGuidePdf(
+  guide: StudyGuide,
+  options: DocumentOptions,
+  loadFont?: FontLoader
+): Promise<Blob> {
+  const { config } = options;
+  const writer = new PdfWriter(await loadPdfFonts(printedText(guide, options), loadFont));
+  writer.doc.setProperties({ title: options.title, creator: config.app_title });
+
+  titlePage(writer, guide, options);
+  writer.newPage();
+
+  writer.heading(config.summary_heading);
+  writer.markdown(guide.summary || "No summary generated.");
+
+  writer.heading(config.concepts_heading);
+  if (guide.concepts.length === 0) {
+    writer.muted("No key concepts generated.");
+  } else {
+    writer.table(
+      ["Term", "Definition"],
+      guide.concepts.map((c) => {
+        const cite = conceptCitation(c);
+        const definition = [
+          markdownToText(c.def),
+          c.explanation ? markdownToText(c.explanation) : null,
+          ...(c.examples ?? []).map((example) => `e.g. ${markdownToText(example)}`),
+        ].filter(Boolean);
+        return [cite ? `${c.term}\n(${cite})` : c.term, definition.join("\n\n")];
+      }),
+      140
+    );
+  }
+
+  for (const [key, items] of Object.entries(guide.extras ?? {})) {
+    if (items.length === 0) continue;
+    writer.heading(describeExtraSection(key).heading);
+    const fields = Object.keys(items[0]);
+    writer.table(
+      fields.map((field) => field.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase())),
+      items.map((item) => fields.map((field) => markdownToText(item[field] ?? "")))
+    );
+  }
+
+  writer.heading(config.questions_heading);
+  if (guide.questions.length === 0) {
+    writer.muted("No questions generated.");
+  } else {
+    questionList(writer, guide.questions);
+  }
+
+  writer.heading(config.detailed_summary_heading);
+  writer.markdown(guide.detailed_summary || "No detailed summary generated.");
+
+  if (guide.questions.length > 0) {
+    answerKey(writer, guide.questions, config.answer_key_heading);
+  }
+
+  footers(writer, options.title, 1);
+  return writer.doc.output("blob");
+}
@@ -0,0 +1,128 @@
+// Fonts for the PDF exports. jsPDF's built-in Helvetica and Courier only draw
+// WinAnsi text (Latin-1 plus typographic quotes, dashes and the like), so a
+// guide with other characters embeds a Unicode TrueType font instead: DejaVu
+// Sans for Latin, Greek, Cyrillic, Arabic and math symbols, or Noto Sans for
+// Chinese, Japanese and Korean. The files come from their npm packages, are
+// served by /api/fonts and are only downloaded when a guide needs them; jsPDF
+// embeds just the glyphs the document uses.
+
+import { ExportError } from "./common";
+
+export type PdfFontStyle = "normal" | "bold" | "italic" | "bolditalic";
+
+/** Font files the /api/fonts route serves, by name, with their path in node_modules. */
+export const PDF_FONT_FILES: Record<string, string> = {
+  "DejaVuSans.ttf": "dejavu-fonts-ttf/ttf/DejaVuSans.ttf",
+  "DejaVuSans-Bold.ttf": "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf",
+  "DejaVuSans-Oblique.ttf": "dejavu-fonts-ttf/ttf/DejaVuSans-Oblique.ttf",
+  "DejaVuSans-BoldOblique.ttf": "dejavu-fonts-ttf/ttf/DejaVuSans-BoldOblique.ttf",
+  "DejaVuSansMono.ttf": "dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf",
+  "NotoSansSC-Regular.ttf": "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf",
+  "NotoSansKR-Regular.ttf": "@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf",
+};
+
+type FontSet = {
+  family: string;
+  /** File per style; styles without their own file use the regular one. */
+  styles: { normal: string } & Partial<Record<PdfFontStyle, string>>;
+  /** Monospace file for code; the regular file is used if there's none. */
+  mono?: string;
+};
+
+// DejaVu has no CJK glyphs, so text with Hangul, kana or Han characters uses
+// one of these instead. They are 6–10 MB each, so only the regular weight is
+// loaded.
+const CJK_FONT_SETS: (FontSet & { pattern: RegExp })[] = [
+  {
+    family: "NotoSansKR",
+    styles: { normal: "NotoSansKR-Regular.ttf" },
+    pattern: /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/,
+  },
+  {
+    family: "NotoSansSC",
+    styles: { normal: "NotoSansSC-Regular.ttf" },
+    pattern: /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/,
+  },
+];
+
+const UNICODE_FONT_SET: FontSet = {
+  family: "DejaVuSans",
+  styles: {
+    normal: "DejaVuSans.ttf",
+    bold: "DejaVuSans-Bold.ttf",
+    italic: "DejaVuSans-Oblique.ttf",
+    bolditalic: "DejaVuSans-BoldOblique.ttf",
+  },
+  mono: "DejaVuSansMono.ttf",
+};
+
+/** A font set with its files as base64, ready to add to a jsPDF document. */
+export type PdfFonts = FontSet & { files: Record<string, string> };
+
+/** Fetches a font file by its PDF_FONT_FILES name. */
+export type FontLoader = (file: string) => Promise<ArrayBuffer>;
+
+// The WinAnsi characters outside Latin-1 (code points 0x80–0x9f)
+const WIN_ANSI_EXTRAS = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ");
+
+/** Whether jsPDF's built-in fonts can draw `char`. */
+export function isWinAnsiCharacter(char: string): boolean {
+  const code = char.codePointAt(0) ?? 0;
+  return (code <= 0xff && (code < 0x80 || code > 0x9f)) || WIN_ANSI_EXTRAS.has(char);
+}
+
+export async function fetchPdfFont(file: string): Promise<ArrayBuffer> {
+  const res = await fetch(`/api/fonts/${encodeURIComponent(file)}`);
+  if (!res.ok) throw new Error(`Font ${file} failed to load (${res.status})`);
+  return res.arrayBuffer();
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // In chunks: spreading megabytes of arguments overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Font files already loaded this session, by loader and name
+const loadedFiles = new WeakMap<FontLoader, Map<string, Promise<string>>>();
+
+function loadFile(file: string, load: FontLoader): Promise<string> {
+  let loaded = loadedFiles.get(load);
+  if (!loaded) loadedFiles.set(load, (loaded = new Map()));
+  let data = loaded.get(file);
+  if (!data) {
+    data = load(file).then(toBase64);
+    // A failed download is retried on the next export
+    data.catch(() => loaded.delete(file));
+    loaded.set(file, data);
+  }
+  return data;
+}
+
+/**
+ * The fonts to draw `text` with: null when the built-in fonts cover it,
+ * otherwise a CJK font if the text has those scripts and DejaVu Sans if not.
+ */
+export async function loadPdfFonts(
+  text: string,
+  load: FontLoader = fetchPdfFont
+): Promise<PdfFonts | null> {
+  if ([...text].every(isWinAnsiCharacter)) return null;
+
+  const set = CJK_FONT_SETS.find(({ pattern }) => pattern.test(text)) ?? UNICODE_FONT_SET;
+  const names = [...new Set([...Object.values(set.styles), set.mono ?? set.styles.normal])];
+  let files: string[];
+  try {
+    files = await Promise.all(names.map((name) => loadFile(name, load)));
+  } catch (err) {
+    console.error(err);
+    throw new ExportError(
+      "The PDF fonts for this guide's language couldn't be downloaded. Check your connection and try again."
+    );
+  }
+  return { ...set, files: Object.fromEntries(names.map((name, i) => [name, files[i]])) };
+}
@@ -0,0 +1,72 @@
+// The study guide as plain text with "=== Heading ===" section markers, for
+// the clipboard and .txt downloads. Guide text keeps its Markdown source.
+
+import { describeExtraSection } from "../presets";
+import type { StudyGuide } from "../studyGuide";
+import { describeAnswer, optionLabel } from "../studyGuide";
+import type { DocumentOptions } from "./common";
+import { conceptCitation } from "./common";
+
+export function buildGuideText(guide: StudyGuide, { config }: DocumentOptions): string {
+  const parts: string[] = [];
+
+  parts.push(`=== ${config.summary_heading} ===`);
+  parts.push(guide.summary || "No summary generated.");
+
+  parts.push("");
+  parts.push(`=== ${config.concepts_heading} ===`);
+  if (guide.concepts.length === 0) {
+    parts.push("No key concepts generated.");
+  } else {
+    guide.concepts.forEach((c, i) => {
+      const cite = conceptCitation(c);
+      parts.push(`${i + 1}. ${c.term}${cite ? ` [${cite}]` : ""}`);
+      parts.push(`   - ${c.def}`);
+      if (c.explanation) parts.push(`     ${c.explanation.replace(/\n+/g, "\n     ")}`);
+      c.examples?.forEach((example) => parts.push(`     e.g. ${example}`));
+    });
+  }
+
+  parts.push("");
+  parts.push(`=== ${config.questions_heading} ===`);
+  if (guide.questions.length === 0) {
+    parts.push("No questions generated.");
+  } else {
+    guide.questions.forEach((q, i) => {
+      parts.push(`${i + 1}. ${q.prompt}`);
+      if (q.type === "multiple_choice") {
+        q.options.forEach((option, j) => {
+          parts.push(`   ${optionLabel(j)}) ${option}`);
+        });
+      } else if (q.type === "true_false") {
+        parts.push("   True / False");
+      }
+    });
+  }
+
+  for (const [key, items] of Object.entries(guide.extras ?? {})) {
+    if (items.length === 0) continue;
+    parts.push("");
+    parts.push(`=== ${describeExtraSection(key).heading} ===`);
+    items.forEach((item, i) => {
+      const [[, title], ...rest] = Object.entries(item);
+      parts.push(`${i + 1}. ${title}`);
+      rest.forEach(([field, value]) => parts.push(`   - ${field.replace(/_/g, " ")}: ${value}`));
+    });
+  }
+
+  parts.push("");
+  parts.push(`=== ${config.detailed_summary_heading} ===`);
+  parts.push(guide.detailed_summary || "No detailed summary generated.");
+
+  if (guide.questions.length > 0) {
+    parts.push("");
+    parts.push(`=== ${config.answer_key_heading} ===`);
+    guide.questions.forEach((q, i) => {
+      parts.push(`${i + 1}. ${describeAnswer(q)} [${q.difficulty}]`);
+      parts.push(`   - ${q.explanation}`);
+    });
+  }
+
+  return parts.join("\n");
+}
@@ -0,0 +1,71 @@
+// A printable worksheet: the practice questions with room to answer them,
+// and the answer key on its own page so it can be handed out separately.
+
+import type { StudyGuide } from "../studyGuide";
+import type { DocumentOptions } from "./common";
+import {
+  ACCENT,
+  answerKey,
+  footers,
+  INK,
+  MARGIN,
+  MUTED,
+  PdfWriter,
+  printedText,
+  questionList,
+} from "./pdf";
+import type { FontLoader } from "./pdfFonts";
+import { loadPdfFonts } from "./pdfFonts";
+
+function header(writer: PdfWriter, options: DocumentOptions) {
+  const { doc, pageWidth } = writer;
+
+  writer.font("bold");
+  doc.setFontSize(9);
+  doc.setTextColor(...ACCENT);
+  doc.text(writer.clean(`${options.config.app_title} · Worksheet`), MARGIN, writer.y, { baseline: "top" });
+  writer.gap(16);
+
+  doc.setFontSize(18);
+  doc.setTextColor(...INK);
+  const titleLines = doc.splitTextToSize(writer.clean(options.title), writer.contentWidth) as string[];
+  doc.text(titleLines, MARGIN, writer.y, { baseline: "top" });
+  writer.gap(titleLines.length * 22 + 14);
+
+  // Name and date lines to fill in
+  writer.font();
+  doc.setFontSize(10);
+  doc.setTextColor(...MUTED);
+  doc.setDrawColor(148, 163, 184);
+  doc.setLineWidth(0.5);
+  const dateX = pageWidth - MARGIN - 150;
+  doc.text("Name", MARGIN, writer.y, { baseline: "top" });
+  doc.line(MARGIN + 34, writer.y + 11, dateX - 20, writer.y + 11);
+  doc.text("Date", dateX, writer.y, { baseline: "top" });
+  doc.line(dateX + 28, writer.y + 11, pageWidth - MARGIN, writer.y + 11);
+  writer.gap(30);
+}
+
+export async function buildWorksheetPdf(
+  guide: StudyGuide,
+  options: DocumentOptions,
+  loadFont?: FontLoader
+): Promise<Blob> {
+  const { config } = options;
+  // Only the questions are printed
+  const printed = { ...guide, summary: "", detailed_summary: "", concepts: [], extras: {} };
+  const writer = new PdfWriter(await loadPdfFonts(printedText(printed, options), loadFont));
+  writer.doc.setProperties({ title: `${options.title} – Worksheet`, creator: config.app_title });
+
+  header(writer, options);
+  writer.heading(config.questions_heading);
+  if (guide.questions.length === 0) {
+    writer.muted("No questions generated.");
+  } else {
+    questionList(writer, guide.questions, true);
+    answerKey(writer, guide.questions, config.answer_key_heading);
+  }
+
+  footers(writer, options.title);
+  return writer.doc.output("blob");
+}
@@ -0,0 +1,76 @@
+// Runs file extraction in a dedicated web worker so big PDFs and OCR don't
+// freeze the page. Each file gets its own worker, which is terminated when
+// the file is done or the caller aborts.
+
+import type { SourceProgress } from "../sources";
+import type { ExtractionIssue, ExtractionResult } from "./types";
+import { ExtractionError } from "./types";
+
+export type ExtractionWorkerMessage =
+  | { type: "progress"; progress: SourceProgress }
+  | { type: "done"; result: ExtractionResult }
+  | { type: "error"; message: string; issue?: ExtractionIssue };
+
+export type ExtractOptions = {
+  onProgress?: (progress: SourceProgress) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Extract a file's text in a web worker. Rejects with an ExtractionError for
+ * known problems and with an AbortError when `signal` is aborted.
+ */
+export function extractInWorker(
+  file: File,
+  { onProgress, signal }: ExtractOptions = {}
+): Promise<ExtractionResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Extraction cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    // Terminating also stops pdf.js and Tesseract, which run in workers
+    // started by this one.
+    const onAbort = () => {
+      finish();
+      reject(new DOMException("Extraction cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (event: MessageEvent<ExtractionWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      finish();
+      if (message.type === "done") {
+        resolve(message.result);
+      } else {
+        reject(
+          message.issue
+            ? new ExtractionError(message.issue, message.message)
+            : new Error(message.message)
+        );
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The file reader stopped unexpectedly"));
+    };
+
+    worker.postMessage({ file });
+  });
+}
@@ -0,0 +1,66 @@
+// EPUB text extraction: chapters in reading (spine) order. An EPUB is a zip
+// with an OPF package file listing the chapters as XHTML documents.
+
+import JSZip from "jszip";
+import type { SourceProgress } from "../sources";
+import { attribute, findElements, findTags, htmlToText, stripTags } from "./markup";
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+function joinPath(dir: string, href: string): string {
+  const parts = `${dir}/${decodeURIComponent(href.split("#")[0])}`.split("/");
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === "..") resolved.pop();
+    else if (part && part !== ".") resolved.push(part);
+  }
+  return resolved.join("/");
+}
+
+/** The book title followed by the text of each chapter in spine order. */
+export async function extractEpub(
+  data: ArrayBuffer,
+  onProgress?: (progress: SourceProgress) => void
+): Promise<string> {
+  const zip = await JSZip.loadAsync(data);
+
+  const container = await zip.file("META-INF/container.xml")?.async("string");
+  const rootfile = container ? findTags(container, "rootfile")[0] : undefined;
+  const opfPath = rootfile ? attribute(rootfile, "full-path") : null;
+  const opf = opfPath ? await zip.file(opfPath)?.async("string") : undefined;
+  if (!opfPath || !opf) throw new Error("Not a valid EPUB (missing package file)");
+
+  const manifest = new Map<string, string>();
+  for (const item of findTags(opf, "item")) {
+    const id = attribute(item, "id");
+    const href = attribute(item, "href");
+    const type = attribute(item, "media-type") ?? "";
+    if (id && href && /html/.test(type)) manifest.set(id, href);
+  }
+
+  const title = stripTags(findElements(opf, "title")[0] ?? "");
+  const chapters: string[] = title ? [`# ${title}`] : [];
+
+  const spine = findTags(opf, "itemref").filter(
+    (itemref) => attribute(itemref, "linear") !== "no"
+  );
+
+  for (const [i, itemref] of spine.entries()) {
+    onProgress?.({ stage: "text", page: i + 1, pages: spine.length });
+    const href = manifest.get(attribute(itemref, "idref") ?? "");
+    if (!href) continue;
+
+    const xhtml = await zip.file(joinPath(dirname(opfPath), href))?.async("string");
+    const text = xhtml ? htmlToText(xhtml) : "";
+    if (text) chapters.push(text);
+  }
+
+  if (chapters.length <= (title ? 1 : 0)) {
+    throw new Error("No readable chapters found in this EPUB");
+  }
+
+  return chapters.join("\n\n");
+}
@@ -0,0 +1,13 @@
+// Saved web pages (.html/.htm): the article text without navigation,
+// headers, footers and other page chrome.
+
+import { findElements, htmlToText, stripTags } from "./markup";
+
+export function extractHtml(html: string): string {
+  const title = stripTags(findElements(html, "title")[0] ?? "");
+  const text = htmlToText(html, { mainContentOnly: true });
+
+  // Most pages repeat the <title> as their first heading
+  if (!title || text.toLowerCase().includes(title.toLowerCase())) return text;
+  return `# ${title}\n\n${text}`;
+}
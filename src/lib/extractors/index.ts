@@ -0,0 +1,214 @@
+// Turns an uploaded file into study text. Every format goes through
+// extractFile, which returns the text plus what the UI should tell the user
+// about it (page count, OCR'd pages, converter warnings) and fails with an
+// ExtractionError naming the specific problem. It runs inside the extraction
+// worker (see worker.ts and client.ts), never on the main thread.
+
+import mammoth from "mammoth";
+import type { SourceProgress } from "../sources";
+import {
+  MIN_PAGE_TEXT_CHARS,
+  OffscreenCanvasFactory,
+  recognizeText,
+  renderPdfPage,
+} from "../ocr";
+import type { PdfTextItem } from "../pdfLayout";
+import { assemblePages, lastPageNumber, layoutPage } from "../pdfLayout";
+import { extractEpub } from "./epub";
+import { extractHtml } from "./html";
+import { extractPptx } from "./pptx";
+import type { ExtractionResult } from "./types";
+import { ExtractionError } from "./types";
+
+export type { ExtractionIssue, ExtractionResult } from "./types";
+export { ExtractionError } from "./types";
+
+type FileSignature = "zip" | "ole" | "pdf" | "rtf" | "unknown";
+
+// Identify a file by its first bytes rather than trusting the extension.
+// Office files are zips; legacy Office files and encrypted Office 2007+
+// files are OLE compound documents.
+function detectSignature(data: ArrayBuffer): FileSignature {
+  const bytes = new Uint8Array(data.slice(0, 8));
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  const ascii = String.fromCharCode(...Array.from(bytes));
+
+  if (hex.startsWith("504b0304")) return "zip";
+  if (hex === "d0cf11e0a1b11ae1") return "ole";
+  if (ascii.startsWith("%PDF")) return "pdf";
+  if (ascii.startsWith("{\\rtf")) return "rtf";
+  return "unknown";
+}
+
+// Fail early on Office files that are not the zip package their extension
+// promises.
+function requireOfficeZip(data: ArrayBuffer, kind: string) {
+  const signature = detectSignature(data);
+  if (signature === "zip") return;
+  if (signature === "ole") {
+    throw new ExtractionError(
+      "password-protected",
+      `This ${kind} is password-protected. Remove the password and upload it again.`
+    );
+  }
+  throw new ExtractionError("corrupt", `This file is not a valid ${kind}.`);
+}
+
+// --------- PDF ----------
+
+// Loaded on first use; most uploads aren't PDFs
+let pdfjsLib: any = null;
+
+async function loadPdfjs() {
+  if (!pdfjsLib) {
+    pdfjsLib = await import("pdfjs-dist");
+    // pdf.js can only start its own worker from `workerSrc` on a page with a
+    // window, so hand it an already started one (from the public folder).
+    pdfjsLib.GlobalWorkerOptions.workerPort = new Worker(
+      `${self.location.origin}/pdf.worker.min.js`
+    );
+  }
+  return pdfjsLib;
+}
+
+async function openPdf(data: ArrayBuffer) {
+  const pdfjs = await loadPdfjs();
+  try {
+    return await pdfjs.getDocument({
+      data,
+      canvasFactory: new OffscreenCanvasFactory(),
+      // Font faces need a DOM document; OCR rendering draws glyph outlines
+      disableFontFace: true,
+    }).promise;
+  } catch (err: any) {
+    if (err?.name === "PasswordException") {
+      throw new ExtractionError(
+        "password-protected",
+        "This PDF is password-protected. Remove the password and upload it again."
+      );
+    }
+    if (err?.name === "InvalidPDFException") {
+      throw new ExtractionError("corrupt", "This PDF is damaged or not a real PDF.");
+    }
+    throw err;
+  }
+}
+
+async function extractPdf(
+  data: ArrayBuffer,
+  onProgress: (progress: SourceProgress) => void
+): Promise<ExtractionResult> {
+  const pdf = await openPdf(data);
+  const pages: string[][] = [];
+  let ocrPages = 0;
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    onProgress({ stage: "text", page: i, pages: pdf.numPages });
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const items = (textContent.items as PdfTextItem[]).filter(
+      (item) => typeof item.str === "string"
+    );
+
+    // Scanned pages have no text layer; fall back to OCR
+    if (items.map((item) => item.str).join("").trim().length < MIN_PAGE_TEXT_CHARS) {
+      onProgress({ stage: "ocr", page: i, pages: pdf.numPages });
+      const canvas = await renderPdfPage(page);
+      pages.push((await recognizeText(canvas)).split("\n"));
+      ocrPages++;
+    } else {
+      pages.push(layoutPage(items));
+    }
+  }
+
+  return {
+    text: assemblePages(pages),
+    warnings: [],
+    pageCount: pdf.numPages,
+    ocrPages,
+  };
+}
+
+// --------- WORD ----------
+
+async function extractWord(data: ArrayBuffer, extension: string): Promise<ExtractionResult> {
+  const signature = detectSignature(data);
+
+  // Word 97-2003 binary documents. A renamed .docx (a zip) still goes
+  // through mammoth below.
+  if (extension === "doc" && signature === "ole") {
+    throw new ExtractionError(
+      "legacy-doc",
+      "Old Word 97-2003 (.doc) files aren't supported. Open it in Word or Google Docs, save it as .docx or PDF, and upload that instead."
+    );
+  }
+  if (extension === "doc" && signature === "rtf") {
+    throw new ExtractionError(
+      "legacy-doc",
+      "This .doc file is really an RTF document. Save it as .docx or PDF and upload that instead."
+    );
+  }
+  requireOfficeZip(data, "Word document");
+
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  return {
+    text: result.value,
+    // The same style warning is reported once per paragraph
+    warnings: Array.from(new Set(result.messages.map((m) => m.message))),
+    ocrPages: 0,
+  };
+}
+
+// --------- ENTRY POINT ----------
+
+export async function extractFile(
+  file: File,
+  onProgress: (progress: SourceProgress) => void
+): Promise<ExtractionResult> {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  let result: ExtractionResult;
+
+  try {
+    // Handle images (photos of notes, screenshots of slides) with OCR
+    if (extension === "png" || extension === "jpg" || extension === "jpeg") {
+      onProgress({ stage: "ocr", page: 1, pages: 1 });
+      result = { text: await recognizeText(file), warnings: [], ocrPages: 1 };
+    } else if (extension === "pdf") {
+      result = await extractPdf(await file.arrayBuffer(), onProgress);
+    } else if (extension === "docx" || extension === "doc") {
+      result = await extractWord(await file.arrayBuffer(), extension);
+    } else if (extension === "pptx") {
+      const data = await file.arrayBuffer();
+      requireOfficeZip(data, "PowerPoint file");
+      const text = await extractPptx(data, onProgress);
+      result = {
+        text,
+        warnings: [],
+        pageCount: lastPageNumber(text) ?? undefined,
+        ocrPages: 0,
+      };
+    } else if (extension === "epub") {
+      const data = await file.arrayBuffer();
+      if (detectSignature(data) !== "zip") {
+        throw new ExtractionError("corrupt", "This file is not a valid EPUB e-book.");
+      }
+      result = { text: await extractEpub(data, onProgress), warnings: [], ocrPages: 0 };
+    } else if (extension === "html" || extension === "htm") {
+      result = { text: extractHtml(await file.text()), warnings: [], ocrPages: 0 };
+    } else {
+      // Text files (.txt, .md, .text) and anything else
+      result = { text: await file.text(), warnings: [], ocrPages: 0 };
+    }
+  } catch (error) {
+    if (error instanceof ExtractionError) throw error;
+    throw new Error(
+      `Failed to read ${extension} file: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  const text = result.text.trim();
+  if (!text) {
+    throw new ExtractionError("empty", "No text found in this file");
+  }
+  return { ...result, text };
+}
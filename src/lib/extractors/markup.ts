@@ -0,0 +1,146 @@
+// String-based helpers for pulling text out of XML and HTML. They avoid
+// DOMParser on purpose so the extractors also run inside web workers.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  deg: "°",
+  times: "×",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return value >= 0 && value <= 0x10ffff ? String.fromCodePoint(value) : match;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+/** Value of `name` on an opening tag string such as `<item id="a" href="b">`. */
+export function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i"));
+  return match ? decodeEntities(match[2] ?? match[3] ?? "") : null;
+}
+
+/** All opening (or self-closing) tags named `name`, namespace prefix optional. */
+export function findTags(xml: string, name: string): string[] {
+  return xml.match(new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>`, "gi")) ?? [];
+}
+
+/** Inner XML of every `name` element (non-nested), namespace prefix optional. */
+export function findElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(
+    `<((?:[\\w-]+:)?${name})\\b[^>]*?(?:/>|>([\\s\\S]*?)</\\1>)`,
+    "gi"
+  );
+  return Array.from(xml.matchAll(pattern), (m) => m[2] ?? "");
+}
+
+export function stripTags(markup: string): string {
+  return decodeEntities(markup.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim();
+}
+
+// Elements whose content is never readable text.
+const NON_TEXT_TAGS = ["script", "style", "noscript", "template", "svg"];
+
+// Page chrome around the main reading content of a web page.
+const BOILERPLATE_TAGS = [
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "iframe",
+  "button",
+  "select",
+];
+
+// The main content container must hold at least this much text to be used
+// instead of the whole body.
+const MIN_MAIN_CONTENT_CHARS = 200;
+
+function removeElements(html: string, tags: string[]): string {
+  let result = html;
+  for (const tag of tags) {
+    result = result.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, "gi"), " ");
+  }
+  return result;
+}
+
+// Page chrome marked up with ARIA roles instead of semantic tags
+function removeLandmarks(html: string): string {
+  return html.replace(
+    /<(div|section|ul)\b[^>]*\brole\s*=\s*["'](?:navigation|banner|contentinfo|complementary)["'][^>]*>[\s\S]*?<\/\1>/gi,
+    " "
+  );
+}
+
+function bodyOf(html: string): string {
+  return html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+}
+
+// The <main> or <article> element when it holds real content (its own
+// <header> usually carries the title, so only navigation is removed from
+// it); otherwise the body without any page chrome.
+function pickMainContent(html: string): string {
+  for (const tag of ["main", "article"]) {
+    const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)</${tag}>`, "i"));
+    if (match && stripTags(match[1]).length >= MIN_MAIN_CONTENT_CHARS) {
+      return removeElements(match[1], ["nav", "aside", "form", "button", "select"]);
+    }
+  }
+  return removeLandmarks(removeElements(bodyOf(html), BOILERPLATE_TAGS));
+}
+
+/**
+ * Convert an HTML or XHTML document to plain text, keeping headings ("#"),
+ * list items ("- ") and paragraph breaks. With `mainContentOnly`, page
+ * chrome (navigation, headers, footers, sidebars) is dropped and the
+ * <main>/<article> element is preferred over the whole body.
+ */
+export function htmlToText(html: string, { mainContentOnly = false } = {}): string {
+  let body = html.replace(/<!--[\s\S]*?-->/g, " ");
+  body = removeElements(body, NON_TEXT_TAGS);
+  body = mainContentOnly ? pickMainContent(body) : bodyOf(body);
+
+  const text = body
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => {
+      const heading = stripTags(inner);
+      return heading ? `\n\n${"#".repeat(Math.min(Number(level), 3))} ${heading}\n\n` : "\n\n";
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|main|ul|ol|table|tr|blockquote|pre|figure|dl|dd)>/gi, "\n\n")
+    .replace(/<(td|th)\b[^>]*>/gi, " ")
+    .replace(/<[^>]*>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    // List items whose text sits in a nested <p> start on their own line
+    .replace(/^-\n+(?=[^\n-])/gm, "- ")
+    .replace(/^-$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,139 @@
+// PowerPoint (.pptx) text extraction: slide titles, bullet hierarchy and
+// speaker notes, in presentation order. A .pptx file is a zip of XML parts.
+
+import JSZip from "jszip";
+import { pageMarker } from "../pdfLayout";
+import type { SourceProgress } from "../sources";
+import { attribute, decodeEntities, findElements, findTags } from "./markup";
+
+type Relationships = Map<string, { target: string; type: string }>;
+
+// Placeholder types that hold the slide title.
+const TITLE_PLACEHOLDERS = ["title", "ctrTitle"];
+// Placeholders on notes pages that are not the speaker's notes.
+const NOTES_SKIP_PLACEHOLDERS = ["sldNum", "sldImg", "hdr", "ftr", "dt"];
+
+/** Resolve a relationship target like "../notesSlides/x.xml" against a part's folder. */
+function resolvePath(fromDir: string, target: string): string {
+  const parts = (target.startsWith("/") ? target.slice(1) : `${fromDir}/${target}`).split("/");
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === "..") resolved.pop();
+    else if (part && part !== ".") resolved.push(part);
+  }
+  return resolved.join("/");
+}
+
+async function readPart(zip: JSZip, path: string): Promise<string | null> {
+  return (await zip.file(path)?.async("string")) ?? null;
+}
+
+async function readRelationships(zip: JSZip, partPath: string): Promise<Relationships> {
+  const slash = partPath.lastIndexOf("/");
+  const dir = partPath.slice(0, slash);
+  const xml = await readPart(zip, `${dir}/_rels/${partPath.slice(slash + 1)}.rels`);
+  const rels: Relationships = new Map();
+
+  for (const tag of findTags(xml ?? "", "Relationship")) {
+    const id = attribute(tag, "Id");
+    const target = attribute(tag, "Target");
+    if (id && target) {
+      rels.set(id, {
+        target: resolvePath(dir, target),
+        type: attribute(tag, "Type") ?? "",
+      });
+    }
+  }
+  return rels;
+}
+
+function paragraphText(paragraph: string): string {
+  return findElements(paragraph, "t")
+    .map(decodeEntities)
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+type Shape = { placeholder: string | null; paragraphs: { text: string; level: number }[] };
+
+function readShapes(xml: string): Shape[] {
+  return findElements(xml, "sp").map((shape) => {
+    const ph = findTags(shape, "ph")[0];
+    const body = findElements(shape, "txBody")[0] ?? "";
+    return {
+      placeholder: ph ? attribute(ph, "type") ?? "body" : null,
+      paragraphs: findElements(body, "p")
+        .map((p) => {
+          const props = findTags(p, "pPr")[0];
+          return {
+            text: paragraphText(p),
+            level: Number(props ? attribute(props, "lvl") ?? 0 : 0),
+          };
+        })
+        .filter((p) => p.text),
+    };
+  });
+}
+
+function formatSlide(index: number, slideXml: string, notesXml: string | null): string {
+  const shapes = readShapes(slideXml);
+  const title = shapes
+    .filter((s) => s.placeholder && TITLE_PLACEHOLDERS.includes(s.placeholder))
+    .flatMap((s) => s.paragraphs.map((p) => p.text))
+    .join(" ");
+
+  const lines = [pageMarker(index), `## ${title || `Slide ${index}`}`];
+
+  for (const shape of shapes) {
+    if (shape.placeholder && TITLE_PLACEHOLDERS.includes(shape.placeholder)) continue;
+    for (const { text, level } of shape.paragraphs) {
+      lines.push(`${"  ".repeat(level)}- ${text}`);
+    }
+  }
+
+  const notes = notesXml
+    ? readShapes(notesXml)
+        .filter(
+          (s) => s.placeholder && !NOTES_SKIP_PLACEHOLDERS.includes(s.placeholder)
+        )
+        .flatMap((s) => s.paragraphs.map((p) => p.text))
+        .join(" ")
+    : "";
+  if (notes) lines.push("", `Speaker notes: ${notes}`);
+
+  return lines.join("\n");
+}
+
+/** Text of every slide, each starting with a "[Page N]" marker and its title. */
+export async function extractPptx(
+  data: ArrayBuffer,
+  onProgress?: (progress: SourceProgress) => void
+): Promise<string> {
+  const zip = await JSZip.loadAsync(data);
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = await readPart(zip, presentationPath);
+  if (!presentation) throw new Error("Not a PowerPoint presentation");
+
+  const rels = await readRelationships(zip, presentationPath);
+  const slidePaths = findTags(presentation, "sldId")
+    .map((tag) => rels.get(attribute(tag, "r:id") ?? "")?.target)
+    .filter((path): path is string => !!path);
+
+  const slides: string[] = [];
+  for (const [i, path] of slidePaths.entries()) {
+    onProgress?.({ stage: "text", page: i + 1, pages: slidePaths.length });
+    const slideXml = await readPart(zip, path);
+    if (!slideXml) continue;
+
+    const slideRels = await readRelationships(zip, path);
+    const notesPath = Array.from(slideRels.values()).find((r) =>
+      r.type.endsWith("/notesSlide")
+    )?.target;
+    const notesXml = notesPath ? await readPart(zip, notesPath) : null;
+
+    slides.push(formatSlide(i + 1, slideXml, notesXml));
+  }
+
+  return slides.join("\n\n");
+}
@@ -0,0 +1,30 @@
+// Shared by the extraction worker and the page that starts it; kept apart
+// from the extractors so the page doesn't bundle them.
+
+export type ExtractionResult = {
+  text: string;
+  /** Non-fatal problems, e.g. content the converter had to skip. */
+  warnings: string[];
+  /** Pages (PDF) or slides (PowerPoint), when the format has them. */
+  pageCount?: number;
+  /** Number of pages that had to be OCR'd. */
+  ocrPages: number;
+};
+
+export type ExtractionIssue =
+  | "legacy-doc"
+  | "password-protected"
+  | "corrupt"
+  | "empty";
+
+// Thrown when a file can't be turned into text. The message is safe to show
+// to end users.
+export class ExtractionError extends Error {
+  issue: ExtractionIssue;
+
+  constructor(issue: ExtractionIssue, message: string) {
+    super(message);
+    this.name = "ExtractionError";
+    this.issue = issue;
+  }
+}
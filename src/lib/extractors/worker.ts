@@ -0,0 +1,25 @@
+// Web worker entry point: reads one file with extractFile and reports
+// progress, the result or the error back to the page. Started (and, to
+// cancel, terminated) by client.ts.
+
+import type { ExtractionWorkerMessage } from "./client";
+import { ExtractionError, extractFile } from "./index";
+
+function post(message: ExtractionWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<{ file: File }>) => {
+  try {
+    const result = await extractFile(event.data.file, (progress) =>
+      post({ type: "progress", progress })
+    );
+    post({ type: "done", result });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      issue: error instanceof ExtractionError ? error.issue : undefined,
+    });
+  }
+};
@@ -0,0 +1,115 @@
+// Flashcard exports for tools students already use. Anki gets a text import
+// file with header directives (deck, tags, columns; Anki 2.1.55+), Quizlet
+// gets its tab/newline separated paste format. Card text is Markdown: Anki
+// gets it rendered to HTML (math left for Anki's own MathJax), Quizlet gets
+// the source.
+
+import { markdownToHtml } from "./markdown";
+import type { Concept, PracticeQuestion } from "./studyGuide";
+import { describeAnswer, optionLabel } from "./studyGuide";
+
+export type FlashcardExportOptions = {
+  deckName: string;
+  tags?: string[];
+  includeQuestions?: boolean;
+};
+
+type Card = { front: string; back: string; tags: string[] };
+
+function questionFront(question: PracticeQuestion): string {
+  if (question.type === "multiple_choice") {
+    // Hard line breaks ("  \n") keep the options on separate lines
+    return [
+      question.prompt,
+      question.options.map((o, i) => `${optionLabel(i)}) ${o}`).join("  \n"),
+    ].join("\n\n");
+  }
+  if (question.type === "true_false") {
+    return `${question.prompt}\n\nTrue or false?`;
+  }
+  return question.prompt;
+}
+
+function buildCards(
+  concepts: Concept[],
+  questions: PracticeQuestion[],
+  includeQuestions: boolean
+): Card[] {
+  const cards: Card[] = concepts.map((c) => ({
+    front: c.term,
+    back: c.def,
+    tags: ["concept"],
+  }));
+
+  if (includeQuestions) {
+    for (const q of questions) {
+      cards.push({
+        front: questionFront(q),
+        back: `${describeAnswer(q)}\n\n${q.explanation}`,
+        tags: ["question", q.type, q.difficulty],
+      });
+    }
+  }
+
+  return cards;
+}
+
+function toTag(value: string): string {
+  return value.trim().replace(/\s+/g, "_");
+}
+
+// Anki fields: rendered Markdown on one line, no tabs (the separator). Line
+// breaks inside code blocks become <br>; the others are just formatting.
+function ankiField(value: string): string {
+  const html = markdownToHtml(value.replace(/\t/g, " "), { inline: true, math: "tex" });
+  return html
+    .split(/(<pre>[\s\S]*?<\/pre>)/)
+    .map((part) =>
+      part.startsWith("<pre>") ? part.replace(/\r?\n/g, "<br>") : part.replace(/\r?\n/g, " ")
+    )
+    .join("");
+}
+
+/** Tab-separated Anki import file with deck/tag metadata headers. */
+export function buildAnkiImport(
+  concepts: Concept[],
+  questions: PracticeQuestion[],
+  { deckName, tags = [], includeQuestions = false }: FlashcardExportOptions
+): string {
+  const lines = [
+    "#separator:tab",
+    "#html:true",
+    `#deck:${deckName.replace(/[\r\n\t]/g, " ")}`,
+    ...(tags.length > 0 ? [`#tags:${tags.map(toTag).join(" ")}`] : []),
+    "#columns:Front\tBack\tTags",
+    "#tags column:3",
+  ];
+
+  for (const card of buildCards(concepts, questions, includeQuestions)) {
+    lines.push(
+      [ankiField(card.front), ankiField(card.back), card.tags.map(toTag).join(" ")].join("\t")
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Quizlet fields: one line each, no tabs
+function quizletField(value: string): string {
+  return value.replace(/\t/g, " ").replace(/\s*\r?\n\s*/g, " / ").trim();
+}
+
+/**
+ * Quizlet import text: "term<TAB>definition" per line. Paste it into
+ * Quizlet's import box with "Tab" between term and definition and
+ * "New line" between cards.
+ */
+export function buildQuizletImport(
+  concepts: Concept[],
+  questions: PracticeQuestion[],
+  { includeQuestions = false }: Pick<FlashcardExportOptions, "includeQuestions"> = {}
+): string {
+  return buildCards(concepts, questions, includeQuestions)
+    .map((card) => `${quizletField(card.front)}\t${quizletField(card.back)}`)
+    .join("\n");
+}
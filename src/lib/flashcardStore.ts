@@ -0,0 +1,71 @@
+// Browser persistence for the flashcard deck. Cards are keyed by their
+// normalized term so regenerating a guide keeps existing review history.
+
+import type { Concept } from "./studyGuide";
+import type { CardSchedule } from "./spacedRepetition";
+import { isDue, newSchedule } from "./spacedRepetition";
+
+export type Flashcard = {
+  id: string;
+  term: string;
+  def: string;
+  schedule: CardSchedule;
+};
+
+export type FlashcardDeck = Record<string, Flashcard>;
+
+const STORAGE_KEY = "examace.flashcards.v1";
+
+export function cardId(term: string): string {
+  return term.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function loadDeck(): FlashcardDeck {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (err) {
+    console.error("Failed to load flashcards:", err);
+    return {};
+  }
+}
+
+export function saveDeck(deck: FlashcardDeck) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(deck));
+  } catch (err) {
+    console.error("Failed to save flashcards:", err);
+  }
+}
+
+/** Add concepts as new cards; known terms keep their schedule but get the latest definition. */
+export function addConcepts(
+  deck: FlashcardDeck,
+  concepts: Concept[],
+  now: Date = new Date()
+): FlashcardDeck {
+  const next = { ...deck };
+  for (const concept of concepts) {
+    const id = cardId(concept.term);
+    const existing = next[id];
+    next[id] = existing
+      ? { ...existing, term: concept.term, def: concept.def }
+      : { id, term: concept.term, def: concept.def, schedule: newSchedule(now) };
+  }
+  return next;
+}
+
+/** Cards due for review, most overdue first. */
+export function dueCards(deck: FlashcardDeck, now: Date = new Date()): Flashcard[] {
+  return Object.values(deck)
+    .filter((card) => isDue(card.schedule, now))
+    .sort((a, b) => a.schedule.due.localeCompare(b.schedule.due));
+}
+
+/** The earliest upcoming review date, or null for an empty deck. */
+export function nextDueDate(deck: FlashcardDeck): Date | null {
+  const dates = Object.values(deck).map((card) => card.schedule.due).sort();
+  return dates.length > 0 ? new Date(dates[0]) : null;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { mergeConcepts } from "./generation";
+
+describe("mergeConcepts", () => {
+  it("keeps one entry per term at its first position", () => {
+    const merged = mergeConcepts([
+      [{ term: "Osmosis", def: "Water movement" }, { term: "Cell", def: "Unit of life" }],
+      [{ term: "the osmosis", def: "Water" }, { term: "Nucleus", def: "Holds DNA" }],
+    ]);
+    expect(merged.map((c) => c.term)).toEqual(["Osmosis", "Cell", "Nucleus"]);
+    expect(merged[0].def).toBe("Water movement");
+  });
+
+  it("takes the quote and citation along with a fuller definition", () => {
+    const merged = mergeConcepts([
+      [{ term: "Osmosis", def: "Water movement", quote: "Osmosis moves water.", source: "a.pdf", page: 1 }],
+      [
+        {
+          term: "Osmosis",
+          def: "Movement of water across a semipermeable membrane",
+          quote: "Osmosis is the movement of water across a semipermeable membrane.",
+          source: "b.pdf",
+          page: 7,
+        },
+      ],
+    ]);
+    expect(merged).toEqual([
+      {
+        term: "Osmosis",
+        def: "Movement of water across a semipermeable membrane",
+        quote: "Osmosis is the movement of water across a semipermeable membrane.",
+        source: "b.pdf",
+        page: 7,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,611 @@
+import {
+  CHUNK_SIZE,
+  MAX_INPUT_CHARS,
+  SINGLE_PASS_LIMIT,
+  mapWithConcurrency,
+  splitIntoChunks,
+} from "./chunking";
+import type { Audience, GenerationOptions, GuideDepth } from "./generationOptions";
+import type { LLMProvider } from "./llm";
+import { ProviderResponseError } from "./llm";
+import { verifyCitations } from "./citations";
+import {
+  GenerationError,
+  buildMessages,
+  requestValidated,
+} from "./modelRequest";
+import { hasPageMarkers, lastPageNumber, pageMarker } from "./pdfLayout";
+import { PRESETS, extraShape, presetRules, validatePresetGuide } from "./presets";
+import { SectionStreamParser } from "./sectionStream";
+import {
+  combineSources,
+  normalizeSourceTags,
+  splitSources,
+} from "./sources";
+import type {
+  Concept,
+  GuideExtras,
+  PracticeQuestion,
+  StudyGuide,
+  StudyGuideSection,
+  ValidationResult,
+} from "./studyGuide";
+import { isStudyGuideSection, validateSection } from "./studyGuide";
+
+export type GenerationResult = StudyGuide & { chunks: number };
+
+/** The server-sent events of the streaming generate route. */
+export type GenerationStreamEvent =
+  | { event: "section"; data: { key: StudyGuideSection; value: StudyGuide[StudyGuideSection] } }
+  | { event: "progress"; data: { completed: number; total: number } }
+  | { event: "done"; data: GenerationResult }
+  | { event: "error"; data: { error: string } };
+
+export type StreamHandlers = {
+  onSection: (key: StudyGuideSection, value: StudyGuide[StudyGuideSection]) => void;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Check a request's `inputText`; returns a user-facing error message, or null
+ * if the text can be generated from.
+ */
+export function validateInputText(inputText: unknown): string | null {
+  if (!inputText || typeof inputText !== "string") {
+    return "Missing inputText";
+  }
+
+  if (inputText.trim().length === 0) {
+    return "Input text cannot be empty";
+  }
+
+  if (inputText.length > MAX_INPUT_CHARS) {
+    return `Input text is too long. Please limit to ${MAX_INPUT_CHARS.toLocaleString("en-US")} characters.`;
+  }
+
+  return null;
+}
+
+// How many chunk requests may run against the model at once.
+const CHUNK_CONCURRENCY = 3;
+
+// Section lengths and the token budget they need, per guide depth.
+const DEPTHS: Record<
+  GuideDepth,
+  { summary: string; detailed: string; merged: string; maxTokens: number }
+> = {
+  quick: {
+    summary: "1–2 sentences",
+    detailed: "1–3 short paragraphs covering only the essentials",
+    merged: "2–4 short paragraphs covering only the essentials",
+    maxTokens: 1200,
+  },
+  standard: {
+    summary: "2–3 sentences max",
+    detailed: "2–6 short paragraphs, still exam-focused",
+    merged: "3–8 short paragraphs, still exam-focused",
+    maxTokens: 1600,
+  },
+  deep: {
+    summary: "3–4 sentences",
+    detailed:
+      "5–10 paragraphs covering mechanisms, edge cases, worked examples and common exam traps",
+    merged:
+      "6–12 paragraphs covering mechanisms, edge cases, worked examples and common exam traps",
+    maxTokens: 3000,
+  },
+};
+
+const AUDIENCES: Record<Audience, string> = {
+  high_school:
+    "a high-school student: plain language, define every technical term, use concrete everyday examples",
+  undergrad:
+    "an undergraduate student: standard course terminology and a moderate level of rigor",
+  grad:
+    "a graduate student: precise technical language, assume the foundations, focus on nuance, limitations and open questions",
+};
+
+/** Wording for section lengths at the chosen depth, for prompts. */
+export function depthGuidance(depth: GuideDepth) {
+  return DEPTHS[depth];
+}
+
+function completionOptions(options: GenerationOptions) {
+  return { maxTokens: DEPTHS[options.depth].maxTokens, temperature: 0.4 };
+}
+
+/** Completion settings and the preset's system prompt for one request. */
+export function requestOptions(options: GenerationOptions, signal?: AbortSignal) {
+  return {
+    ...completionOptions(options),
+    system: PRESETS[options.preset].system,
+    signal,
+  };
+}
+
+function guideValidator(options: GenerationOptions) {
+  const preset = PRESETS[options.preset];
+  return (value: unknown) => validatePresetGuide(preset, value);
+}
+
+// Audience and output language, shared by every guide prompt
+export function styleNote(options: GenerationOptions): string {
+  const language =
+    options.language === "English"
+      ? ""
+      : `
+    Write every string value in ${options.language}. Keep the JSON keys, the "type" and "difficulty" values and any source names exactly as given, in English. Keep "quote" values in the language of the material.
+`;
+  return `
+    Write for ${AUDIENCES[options.audience]}.
+${language}`;
+}
+
+/**
+ * Prompt lines asking for a "source" field on `items` ("every concept and
+ * question"), when the material is made of several sources.
+ */
+export function sourceNote(text: string, items: string): string {
+  const sourceNames = splitSources(text).map((s) => s.name);
+  return sourceNames.length > 0
+    ? `
+    The material is made of sources, each starting with a "=== Source: <name> ===" line.
+    Add a "source" field to ${items}: the name of the source it comes from, exactly one of ${sourceNames.map((n) => JSON.stringify(n)).join(", ")}.
+`
+    : "";
+}
+
+// String values are rendered as Markdown (see markdown.ts); the JSON itself
+// must still come bare.
+export const MARKDOWN_NOTE = `    String values may use Markdown where it helps: **bold**, *italics*, "- " lists, \`inline code\`, fenced code blocks with a language, and LaTeX math between $...$ (inline) or $$...$$ (display). Escape backslashes and line breaks as JSON requires ("\\\\frac", "\\\\n").
+    Do NOT add explanations or wrap the JSON in code fences. Output JSON only.`;
+
+// Quotes are checked against the material by verifyCitations, so they must be
+// verbatim rather than paraphrased.
+export const QUOTE_RULE = `    - "quote" = the sentence or short passage (under 40 words) of the study material that supports the item, copied character for character; never paraphrase or translate it`;
+
+function buildGuidePrompt(
+  text: string,
+  options: GenerationOptions,
+  part?: { index: number; total: number }
+) {
+  const partNote = part
+    ? `
+    This is part ${part.index + 1} of ${part.total} of a longer document. Cover only what appears in this part.
+`
+    : "";
+
+  // Long material is split into parts; each part gets its share of the items
+  const share = (count: number) => (part ? Math.ceil(count / part.total) : count);
+  const depth = DEPTHS[options.depth];
+  const preset = PRESETS[options.preset];
+  const rules = presetRules(preset);
+
+  const pageNote = hasPageMarkers(text)
+    ? `
+    The material contains "[Page N]" markers. Add a "page" field to every concept: the number N of the nearest page marker before the place the concept is explained.
+`
+    : "";
+
+  return `
+    You are an AI that turns raw study material into a structured exam study guide.
+
+    Return ONLY valid JSON with this exact shape:
+    {
+    "summary": "string",
+    "detailed_summary": "string",
+    "concepts": [
+        { "term": "string", "def": "string", "quote": "string" }
+    ],
+    "questions": [
+        { "type": "multiple_choice", "prompt": "string", "options": ["string"], "answer_index": 0, "explanation": "string", "difficulty": "easy" | "medium" | "hard", "concept": "string", "quote": "string" },
+        { "type": "true_false", "prompt": "string", "answer": true, "explanation": "string", "difficulty": "easy" | "medium" | "hard", "concept": "string", "quote": "string" },
+        { "type": "short_answer", "prompt": "string", "model_answer": "string", "explanation": "string", "difficulty": "easy" | "medium" | "hard", "concept": "string", "quote": "string" }
+    ]${extraShape(preset)}
+    }
+
+    - "summary" = very short high-level overview (${depth.summary})
+    - "detailed_summary" = deeper explanation (${depth.detailed})
+    - "concepts" = the ${share(options.conceptCount)} most important terms, ideas or facts to know
+    - "questions" = exactly ${share(options.questionCount)} questions mixing the three question types; multiple choice has 3–5 options and "answer_index" is the 0-based index of the correct one
+    - "explanation" = one or two sentences on why the answer is correct
+    - "concept" = the exact "term" from "concepts" that the question tests
+${QUOTE_RULE}
+${rules ? `${rules}
+` : ""}${MARKDOWN_NOTE}
+${styleNote(options)}${partNote}${sourceNote(text, "every concept and question")}${pageNote}
+    Study material:
+    """${text}"""
+    `;
+}
+
+function buildMergePrompt(partials: StudyGuide[], options: GenerationOptions) {
+  const sections = partials
+    .map(
+      (p, i) =>
+        `Part ${i + 1} summary: ${p.summary}\nPart ${i + 1} detailed summary: ${p.detailed_summary}`
+    )
+    .join("\n\n");
+
+  return `
+    The following are summaries of consecutive parts of one set of study material.
+    Combine them into a single study guide overview.
+
+    Return ONLY valid JSON with this exact shape:
+    {
+    "summary": "string",
+    "detailed_summary": "string"
+    }
+
+    - "summary" = very short high-level overview of the whole material (${DEPTHS[options.depth].summary})
+    - "detailed_summary" = deeper explanation (${DEPTHS[options.depth].merged}) that follows the order of the parts
+${MARKDOWN_NOTE}
+${styleNote(options)}
+    Part summaries:
+    """${sections}"""
+    `;
+}
+
+/**
+ * Resolve the model's source tags against the sources present in `text`.
+ * When the text holds a single source, untagged items belong to it.
+ */
+export function tagSources(guide: StudyGuide, text: string): StudyGuide {
+  const names = splitSources(text).map((s) => s.name);
+  if (names.length === 0) return guide;
+  return normalizeSourceTags(guide, names, names.length === 1 ? names[0] : undefined);
+}
+
+/** Trim a section to the requested number of concepts or questions. */
+function limitSection<K extends StudyGuideSection>(
+  key: K,
+  value: StudyGuide[K],
+  options: GenerationOptions
+): StudyGuide[K] {
+  if (key === "concepts") {
+    return (value as Concept[]).slice(0, options.conceptCount) as StudyGuide[K];
+  }
+  if (key === "questions") {
+    return (value as PracticeQuestion[]).slice(0, options.questionCount) as StudyGuide[K];
+  }
+  return value;
+}
+
+function limitGuide(guide: StudyGuide, options: GenerationOptions): StudyGuide {
+  return {
+    ...guide,
+    concepts: limitSection("concepts", guide.concepts, options),
+    questions: limitSection("questions", guide.questions, options),
+  };
+}
+
+async function generateGuide(
+  provider: LLMProvider,
+  text: string,
+  options: GenerationOptions,
+  part?: { index: number; total: number },
+  signal?: AbortSignal
+): Promise<StudyGuide> {
+  const guide = await requestValidated(
+    provider,
+    buildGuidePrompt(text, options, part),
+    guideValidator(options),
+    requestOptions(options, signal)
+  );
+  return tagSources(guide, text);
+}
+
+/**
+ * `splitIntoChunks`, but every chunk after the first repeats the page marker
+ * in effect where it starts, so page citations stay correct per chunk.
+ */
+function splitKeepingPages(text: string): string[] {
+  let cursor = 0;
+  return splitIntoChunks(text).map((piece, i) => {
+    const start = text.indexOf(piece, cursor);
+    if (start === -1) return piece;
+    cursor = start + 1;
+
+    if (i === 0 || piece.startsWith("[Page ")) return piece;
+    const page = lastPageNumber(text.slice(0, start));
+    return page === null ? piece : `${pageMarker(page)}\n${piece}`;
+  });
+}
+
+/**
+ * Split long material into chunks. Multi-source material is chunked along
+ * source boundaries (small neighbouring sources share a chunk) and every
+ * chunk starts with its source header, so tags stay accurate per chunk.
+ */
+function chunkMaterial(text: string): string[] {
+  const sources = splitSources(text);
+  if (sources.length === 0) return splitKeepingPages(text);
+
+  const chunks: string[] = [];
+  let pending: typeof sources = [];
+
+  const flush = () => {
+    if (pending.length > 0) chunks.push(combineSources(pending));
+    pending = [];
+  };
+
+  for (const source of sources) {
+    if (source.text.length > CHUNK_SIZE) {
+      flush();
+      for (const piece of splitKeepingPages(source.text)) {
+        chunks.push(combineSources([{ name: source.name, text: piece }]));
+      }
+      continue;
+    }
+
+    if (combineSources([...pending, source]).length > CHUNK_SIZE) flush();
+    pending.push(source);
+  }
+  flush();
+
+  return chunks;
+}
+
+function validateOverview(
+  value: unknown
+): ValidationResult<Pick<StudyGuide, "summary" | "detailed_summary">> {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const summary = validateSection("summary", record.summary);
+  const detailed = validateSection("detailed_summary", record.detailed_summary);
+
+  if (summary.ok && detailed.ok) {
+    return {
+      ok: true,
+      value: { summary: summary.value, detailed_summary: detailed.value },
+    };
+  }
+  return {
+    ok: false,
+    errors: [
+      ...(summary.ok ? [] : summary.errors),
+      ...(detailed.ok ? [] : detailed.errors),
+    ],
+  };
+}
+
+function normalizeKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/^(the|a|an)\s+/, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Merge concept lists into one entry per term, at the term's first position
+ * and with its fullest definition. Overlapping
+ * chunks often produce the same concept twice with slightly different
+ * wording, so terms are compared case- and punctuation-insensitively.
+ */
+export function mergeConcepts(lists: Concept[][]): Concept[] {
+  const seen = new Map<string, Concept>();
+
+  for (const concept of lists.flat()) {
+    const key = normalizeKey(concept.term);
+    if (!key) continue;
+
+    const existing = seen.get(key);
+    if (!existing) {
+      seen.set(key, concept);
+    } else if (concept.def.length > existing.def.length) {
+      // Prefer the fuller definition, together with the quote and citation
+      // backing it; the map keeps the original position
+      seen.set(key, concept);
+    }
+  }
+
+  return Array.from(seen.values());
+}
+
+export function mergeQuestions(lists: PracticeQuestion[][]): PracticeQuestion[] {
+  const seen = new Set<string>();
+  const merged: PracticeQuestion[] = [];
+
+  for (const question of lists.flat()) {
+    const key = normalizeKey(question.prompt);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    merged.push(question);
+  }
+
+  return merged;
+}
+
+/**
+ * Merge each extra section across chunks, dropping items whose first field
+ * (the date, word, case name, ...) was already seen.
+ */
+export function mergeExtras(lists: (GuideExtras | undefined)[]): GuideExtras | undefined {
+  const present = lists.filter((extras): extras is GuideExtras => !!extras);
+  if (present.length === 0) return undefined;
+
+  const itemKey = (item: Record<string, string>) =>
+    normalizeKey(Object.values(item)[0] ?? "");
+
+  const merged: GuideExtras = {};
+  for (const extras of present) {
+    for (const [key, items] of Object.entries(extras)) {
+      const seen = new Set((merged[key] ?? []).map(itemKey));
+      merged[key] = [...(merged[key] ?? [])];
+      for (const item of items) {
+        if (seen.has(itemKey(item))) continue;
+        seen.add(itemKey(item));
+        merged[key].push(item);
+      }
+    }
+  }
+  return merged;
+}
+
+/** The final guide of a chunked run: merged partials under the new overview. */
+function combinePartials(
+  overview: Pick<StudyGuide, "summary" | "detailed_summary">,
+  partials: StudyGuide[],
+  options: GenerationOptions
+): StudyGuide {
+  const extras = mergeExtras(partials.map((p) => p.extras));
+  return limitGuide(
+    {
+      ...overview,
+      concepts: mergeConcepts(partials.map((p) => p.concepts)),
+      questions: mergeQuestions(partials.map((p) => p.questions)),
+      ...(extras ? { extras } : {}),
+    },
+    options
+  );
+}
+
+async function mergeOverviews(
+  provider: LLMProvider,
+  partials: StudyGuide[],
+  options: GenerationOptions,
+  signal?: AbortSignal
+): Promise<Pick<StudyGuide, "summary" | "detailed_summary">> {
+  try {
+    return await requestValidated(
+      provider,
+      buildMergePrompt(partials, options),
+      validateOverview,
+      requestOptions(options, signal)
+    );
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.error("Failed to merge summaries, falling back to concatenation:", err);
+  }
+
+  return {
+    summary: partials.map((p) => p.summary).filter(Boolean).join(" "),
+    detailed_summary: partials
+      .map((p) => p.detailed_summary)
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
+
+/**
+ * Generate a study guide for `text`. Short inputs use a single request; long
+ * inputs are split into overlapping chunks (map), and the partial guides are
+ * combined into one (reduce).
+ */
+export async function generateStudyGuide(
+  provider: LLMProvider,
+  text: string,
+  options: GenerationOptions,
+  signal?: AbortSignal
+): Promise<GenerationResult> {
+  if (text.length <= SINGLE_PASS_LIMIT) {
+    const guide = await generateGuide(provider, text, options, undefined, signal);
+    return { ...verifyCitations(limitGuide(guide, options), text), chunks: 1 };
+  }
+
+  const chunks = chunkMaterial(text);
+  const partials = await mapWithConcurrency(
+    chunks,
+    CHUNK_CONCURRENCY,
+    (chunk, index) =>
+      generateGuide(provider, chunk, options, { index, total: chunks.length }, signal)
+  );
+
+  const overview = await mergeOverviews(provider, partials, options, signal);
+
+  return {
+    ...verifyCitations(combinePartials(overview, partials, options), text),
+    chunks: chunks.length,
+  };
+}
+
+/**
+ * Streaming variant of `generateStudyGuide`. Single-pass inputs report each
+ * section as soon as the model finishes writing it; chunked inputs report
+ * progress per chunk and the merged concepts/questions so far, then the
+ * overview once all chunks are done. Resolves with the complete guide.
+ */
+export async function streamStudyGuide(
+  provider: LLMProvider,
+  text: string,
+  options: GenerationOptions,
+  { onSection, onProgress, signal }: StreamHandlers
+): Promise<GenerationResult> {
+  if (text.length <= SINGLE_PASS_LIMIT) {
+    const prompt = buildGuidePrompt(text, options);
+    const parser = new SectionStreamParser();
+    const messages = buildMessages(PRESETS[options.preset].system, prompt);
+    const stream = provider.chatStream(messages, {
+      ...completionOptions(options),
+      signal,
+    });
+
+    try {
+      for await (const delta of stream) {
+        for (const { key, value } of parser.push(delta)) {
+          if (!isStudyGuideSection(key)) continue;
+          // Invalid sections are skipped here; the final validation
+          // re-prompts the model and the result replaces them.
+          const section = validateSection(key, value);
+          if (section.ok) onSection(key, limitSection(key, section.value, options));
+        }
+      }
+    } catch (err) {
+      if (err instanceof ProviderResponseError) {
+        throw new GenerationError(err.message, err.details);
+      }
+      throw err;
+    }
+
+    if (!parser.text) {
+      throw new GenerationError(`Unexpected ${provider.label} response`);
+    }
+
+    const guide = await requestValidated(provider, prompt, guideValidator(options), {
+      ...requestOptions(options, signal),
+      firstContent: parser.text,
+    });
+    return {
+      ...verifyCitations(limitGuide(tagSources(guide, text), options), text),
+      chunks: 1,
+    };
+  }
+
+  const chunks = chunkMaterial(text);
+  const partials: StudyGuide[] = [];
+  let completed = 0;
+  onProgress?.(0, chunks.length);
+
+  await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, index) => {
+    const partial = await generateGuide(
+      provider,
+      chunk,
+      options,
+      { index, total: chunks.length },
+      signal
+    );
+    partials[index] = partial;
+    completed++;
+
+    const done = partials.filter(Boolean);
+    onProgress?.(completed, chunks.length);
+    onSection(
+      "concepts",
+      limitSection("concepts", mergeConcepts(done.map((p) => p.concepts)), options)
+    );
+    onSection(
+      "questions",
+      limitSection("questions", mergeQuestions(done.map((p) => p.questions)), options)
+    );
+  });
+
+  const overview = await mergeOverviews(provider, partials, options, signal);
+  onSection("summary", overview.summary);
+  onSection("detailed_summary", overview.detailed_summary);
+
+  return {
+    ...verifyCitations(combinePartials(overview, partials, options), text),
+    chunks: chunks.length,
+  };
+}
@@ -0,0 +1,174 @@
+// User-chosen settings for a generation run: the subject preset, how deep the
+// guide goes, how many concepts and questions it has, who it is written for
+// and in which language. Sent with every generate request and validated on
+// the server.
+
+import type { PresetId } from "./presets";
+import { DEFAULT_PRESET_ID, PRESET_IDS, isPresetId } from "./presets";
+import type { ValidationResult } from "./studyGuide";
+
+export type GuideDepth = "quick" | "standard" | "deep";
+
+export type Audience = "high_school" | "undergrad" | "grad";
+
+export type GenerationOptions = {
+  preset: PresetId;
+  depth: GuideDepth;
+  conceptCount: number;
+  questionCount: number;
+  audience: Audience;
+  language: string;
+};
+
+export const GUIDE_DEPTHS: { value: GuideDepth; label: string }[] = [
+  { value: "quick", label: "Quick review" },
+  { value: "standard", label: "Standard" },
+  { value: "deep", label: "Exam deep-dive" },
+];
+
+export const AUDIENCES: { value: Audience; label: string }[] = [
+  { value: "high_school", label: "High school" },
+  { value: "undergrad", label: "Undergraduate" },
+  { value: "grad", label: "Graduate" },
+];
+
+// A fixed list rather than free text: the language is pasted into the prompt.
+export const LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Italian",
+  "Portuguese",
+  "Dutch",
+  "Polish",
+  "Turkish",
+  "Russian",
+  "Ukrainian",
+  "Arabic",
+  "Hindi",
+  "Indonesian",
+  "Vietnamese",
+  "Chinese (Simplified)",
+  "Japanese",
+  "Korean",
+];
+
+export const MIN_ITEM_COUNT = 3;
+export const MAX_ITEM_COUNT = 25;
+
+/** Most questions one "more questions" request may add to a guide. */
+export const MAX_MORE_QUESTIONS = 10;
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  preset: DEFAULT_PRESET_ID,
+  depth: "standard",
+  conceptCount: 8,
+  questionCount: 6,
+  audience: "undergrad",
+  language: "English",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function validateCount(value: unknown, name: string, errors: string[]): number | null {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < MIN_ITEM_COUNT ||
+    value > MAX_ITEM_COUNT
+  ) {
+    errors.push(`"${name}" must be a whole number from ${MIN_ITEM_COUNT} to ${MAX_ITEM_COUNT}`);
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Check a request's `options`. Missing options (or missing fields) fall back
+ * to the defaults; present but invalid fields are errors.
+ */
+export function validateGenerationOptions(
+  value: unknown
+): ValidationResult<GenerationOptions> {
+  if (value === undefined || value === null) {
+    return { ok: true, value: DEFAULT_GENERATION_OPTIONS };
+  }
+  if (!isRecord(value)) {
+    return { ok: false, errors: ['"options" must be an object'] };
+  }
+
+  const options = { ...DEFAULT_GENERATION_OPTIONS };
+  const errors: string[] = [];
+
+  if (value.preset !== undefined) {
+    if (isPresetId(value.preset)) {
+      options.preset = value.preset;
+    } else {
+      errors.push(`"preset" must be one of ${PRESET_IDS.join(", ")}`);
+    }
+  }
+
+  if (value.depth !== undefined) {
+    if (GUIDE_DEPTHS.some((d) => d.value === value.depth)) {
+      options.depth = value.depth as GuideDepth;
+    } else {
+      errors.push(`"depth" must be one of ${GUIDE_DEPTHS.map((d) => d.value).join(", ")}`);
+    }
+  }
+
+  if (value.audience !== undefined) {
+    if (AUDIENCES.some((a) => a.value === value.audience)) {
+      options.audience = value.audience as Audience;
+    } else {
+      errors.push(`"audience" must be one of ${AUDIENCES.map((a) => a.value).join(", ")}`);
+    }
+  }
+
+  if (value.language !== undefined) {
+    if (typeof value.language === "string" && LANGUAGES.includes(value.language)) {
+      options.language = value.language;
+    } else {
+      errors.push(`"language" must be one of the supported languages`);
+    }
+  }
+
+  if (value.conceptCount !== undefined) {
+    const count = validateCount(value.conceptCount, "conceptCount", errors);
+    if (count !== null) options.conceptCount = count;
+  }
+
+  if (value.questionCount !== undefined) {
+    const count = validateCount(value.questionCount, "questionCount", errors);
+    if (count !== null) options.questionCount = count;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: options };
+}
+
+// --------- SAVED PREFERENCES ----------
+
+const STORAGE_KEY = "examace.generationOptions.v1";
+
+/** The options last used in this browser, or the defaults. */
+export function loadGenerationOptions(): GenerationOptions {
+  if (typeof window === "undefined") return DEFAULT_GENERATION_OPTIONS;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const result = validateGenerationOptions(raw ? JSON.parse(raw) : undefined);
+    return result.ok ? result.value : DEFAULT_GENERATION_OPTIONS;
+  } catch (err) {
+    console.error("Failed to load generation options:", err);
+    return DEFAULT_GENERATION_OPTIONS;
+  }
+}
+
+export function saveGenerationOptions(options: GenerationOptions) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (err) {
+    console.error("Failed to save generation options:", err);
+  }
+}
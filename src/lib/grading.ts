@@ -0,0 +1,83 @@
+import type { LLMProvider } from "./llm";
+import { requestValidated } from "./modelRequest";
+import type { ShortAnswerQuestion, ValidationResult } from "./studyGuide";
+
+export type GradeResult = {
+  correct: boolean;
+  /** 0–1, how much of the model answer the student covered. */
+  score: number;
+  feedback: string;
+};
+
+export const MAX_ANSWER_CHARS = 2000;
+
+const SYSTEM_PROMPT =
+  "You are a fair, encouraging exam grader. Only output JSON when asked.";
+
+function buildGradePrompt(question: ShortAnswerQuestion, answer: string) {
+  return `
+    Grade a student's short answer against the model answer. Accept answers that
+    express the same key ideas in different words; ignore spelling and grammar.
+
+    Return ONLY valid JSON with this exact shape:
+    {
+    "correct": true,
+    "score": 0.0,
+    "feedback": "string"
+    }
+
+    - "score" = number from 0 to 1 for how completely the key ideas are covered
+    - "correct" = true when the score is at least 0.6
+    - "feedback" = one or two sentences addressed to the student on what was right or missing
+    Do NOT add explanations, markdown, or backticks. Output JSON only.
+
+    Question: ${question.prompt}
+    Model answer: ${question.model_answer}
+    Student answer: """${answer}"""
+    `;
+}
+
+export function validateGradeResult(value: unknown): ValidationResult<GradeResult> {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof record.correct !== "boolean") {
+    errors.push('"correct" must be true or false');
+  }
+  if (
+    typeof record.score !== "number" ||
+    Number.isNaN(record.score) ||
+    record.score < 0 ||
+    record.score > 1
+  ) {
+    errors.push('"score" must be a number from 0 to 1');
+  }
+  if (typeof record.feedback !== "string" || !record.feedback.trim()) {
+    errors.push('"feedback" must be a non-empty string');
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: {
+          correct: record.correct as boolean,
+          score: record.score as number,
+          feedback: (record.feedback as string).trim(),
+        },
+      };
+}
+
+export function gradeShortAnswer(
+  provider: LLMProvider,
+  question: ShortAnswerQuestion,
+  answer: string,
+  signal?: AbortSignal
+): Promise<GradeResult> {
+  return requestValidated(
+    provider,
+    buildGradePrompt(question, answer),
+    validateGradeResult,
+    { system: SYSTEM_PROMPT, maxTokens: 200, temperature: 0, signal }
+  );
+}
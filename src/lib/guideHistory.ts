@@ -0,0 +1,129 @@
+// The study guide shown in the results, with undo/redo history for the
+// user's edits. Streaming and loading a guide replace it without history;
+// edits and AI section updates (regenerate, more questions, expand) are
+// undoable. `revision` counts undoable changes so the page knows when to
+// save the guide back to the library.
+
+import type { Concept, PracticeQuestion, StudyGuide, StudyGuideSection } from "./studyGuide";
+
+const MAX_HISTORY = 50;
+
+export type GuideHistory = {
+  past: StudyGuide[];
+  present: StudyGuide;
+  future: StudyGuide[];
+  revision: number;
+};
+
+/** An item list of the guide that can be edited item by item. */
+export type GuideList = "concepts" | "questions";
+
+type ListItem<L extends GuideList> = L extends "concepts" ? Concept : PracticeQuestion;
+
+export type GuideEdit =
+  | { kind: "set_text"; section: "summary" | "detailed_summary"; value: string }
+  | { kind: "update_item"; list: "concepts"; index: number; item: Concept }
+  | { kind: "update_item"; list: "questions"; index: number; item: PracticeQuestion }
+  | { kind: "add_item"; list: "concepts"; item: Concept }
+  | { kind: "add_item"; list: "questions"; item: PracticeQuestion }
+  | { kind: "remove_item"; list: GuideList; index: number }
+  | { kind: "move_item"; list: GuideList; index: number; offset: -1 | 1 };
+
+export type GuideAction =
+  /** A new, opened or imported guide; clears the history. */
+  | { type: "load"; guide: StudyGuide }
+  /** One section streamed in during generation. */
+  | { type: "stream"; key: StudyGuideSection; value: StudyGuide[StudyGuideSection] }
+  /** A whole-guide change from an AI section action. */
+  | { type: "replace"; guide: StudyGuide }
+  | { type: "edit"; edit: GuideEdit }
+  | { type: "undo" }
+  | { type: "redo" };
+
+export const EMPTY_GUIDE: StudyGuide = {
+  summary: "",
+  detailed_summary: "",
+  concepts: [],
+  questions: [],
+};
+
+export const EMPTY_HISTORY: GuideHistory = {
+  past: [],
+  present: EMPTY_GUIDE,
+  future: [],
+  revision: 0,
+};
+
+function editList<L extends GuideList>(
+  items: ListItem<L>[],
+  edit: Extract<GuideEdit, { list: GuideList }>
+): ListItem<L>[] {
+  switch (edit.kind) {
+    case "update_item":
+      return items.map((item, i) => (i === edit.index ? (edit.item as ListItem<L>) : item));
+    case "add_item":
+      return [...items, edit.item as ListItem<L>];
+    case "remove_item":
+      return items.filter((_, i) => i !== edit.index);
+    case "move_item": {
+      const to = edit.index + edit.offset;
+      if (to < 0 || to >= items.length) return items;
+      const next = [...items];
+      [next[edit.index], next[to]] = [next[to], next[edit.index]];
+      return next;
+    }
+  }
+}
+
+export function applyGuideEdit(guide: StudyGuide, edit: GuideEdit): StudyGuide {
+  if (edit.kind === "set_text") return { ...guide, [edit.section]: edit.value };
+  const items =
+    edit.list === "concepts"
+      ? editList<"concepts">(guide.concepts, edit)
+      : editList<"questions">(guide.questions, edit);
+  // Moves past either end change nothing
+  return items === guide[edit.list] ? guide : { ...guide, [edit.list]: items };
+}
+
+function record(history: GuideHistory, next: StudyGuide): GuideHistory {
+  if (next === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: next,
+    future: [],
+    revision: history.revision + 1,
+  };
+}
+
+export function guideHistoryReducer(history: GuideHistory, action: GuideAction): GuideHistory {
+  switch (action.type) {
+    case "load":
+      return { past: [], present: action.guide, future: [], revision: history.revision };
+    case "stream":
+      return { ...history, present: { ...history.present, [action.key]: action.value } };
+    case "replace":
+      return record(history, action.guide);
+    case "edit":
+      return record(history, applyGuideEdit(history.present, action.edit));
+    case "undo": {
+      const previous = history.past[history.past.length - 1];
+      if (!previous) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: previous,
+        future: [history.present, ...history.future],
+        revision: history.revision + 1,
+      };
+    }
+    case "redo": {
+      const [next, ...future] = history.future;
+      if (!next) return history;
+      return {
+        past: [...history.past, history.present],
+        present: next,
+        future,
+        revision: history.revision + 1,
+      };
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { defaultConfig } from "./appConfig";
+import { buildGuideJson } from "./exporters/json";
+import { buildGuideText } from "./exporters/text";
+import { GuideImportError, parseGuideImport } from "./guideImport";
+import type { StudyGuide } from "./studyGuide";
+
+const GUIDE: StudyGuide = {
+  summary: "Cells are the basic unit of life.",
+  detailed_summary: "All living things are made of cells.\n\nCells come from other cells.",
+  concepts: [
+    { term: "Cell", def: "The smallest unit of life", source: "biology.pdf", page: 2 },
+    { term: "Nucleus", def: "Holds the cell's DNA" },
+  ],
+  questions: [
+    {
+      type: "multiple_choice",
+      prompt: "Which part holds the DNA?",
+      options: ["Nucleus", "Membrane", "Ribosome"],
+      answer_index: 0,
+      explanation: "The nucleus stores the genetic material.",
+      difficulty: "easy",
+    },
+    {
+      type: "true_false",
+      prompt: "Cells come from other cells.",
+      answer: true,
+      explanation: "This is part of cell theory.",
+      difficulty: "medium",
+    },
+    {
+      type: "short_answer",
+      prompt: "What is a cell?",
+      model_answer: "The smallest unit of life",
+      explanation: "Cell theory defines it this way.",
+      difficulty: "hard",
+    },
+  ],
+};
+
+const options = { title: "Biology", config: defaultConfig };
+
+// The text export of the app's first version: bare question strings and no
+// answer key
+const ORIGINAL_TEXT_EXPORT = [
+  `=== ${defaultConfig.summary_heading} ===`,
+  "Cells are the basic unit of life.",
+  "",
+  `=== ${defaultConfig.concepts_heading} ===`,
+  "1. Cell",
+  "   - The smallest unit of life",
+  "",
+  `=== ${defaultConfig.questions_heading} ===`,
+  "1. What is a cell?",
+  "2. Where is the DNA stored?",
+  "",
+  `=== ${defaultConfig.detailed_summary_heading} ===`,
+  "All living things are made of cells.",
+].join("\n");
+
+describe("parseGuideImport", () => {
+  it("round-trips the JSON export", () => {
+    const imported = parseGuideImport(buildGuideJson(GUIDE, options), "biology.json", defaultConfig);
+    expect(imported).toEqual({ title: "Biology", guide: GUIDE, notice: null });
+  });
+
+  it("round-trips the text export", () => {
+    const imported = parseGuideImport(buildGuideText(GUIDE, options), "biology.txt", defaultConfig);
+    expect(imported?.guide).toEqual(GUIDE);
+    expect(imported?.notice).toBeNull();
+  });
+
+  it("imports the original text export without answers", () => {
+    const imported = parseGuideImport(ORIGINAL_TEXT_EXPORT, "study-guide.txt", defaultConfig);
+    expect(imported?.guide.concepts).toEqual([{ term: "Cell", def: "The smallest unit of life" }]);
+    expect(imported?.guide.questions.map((q) => [q.type, q.prompt])).toEqual([
+      ["short_answer", "What is a cell?"],
+      ["short_answer", "Where is the DNA stored?"],
+    ]);
+    expect(imported?.notice).toMatch(/^2 questions have no answer/);
+  });
+
+  it("upgrades bare guides with string questions", () => {
+    const bare = JSON.stringify({ ...GUIDE, questions: ["What is a cell?"] });
+    const imported = parseGuideImport(bare, "guide.json", defaultConfig);
+    expect(imported?.title).toBeNull();
+    expect(imported?.guide.questions).toHaveLength(1);
+    expect(imported?.guide.questions[0]).toMatchObject({
+      type: "short_answer",
+      prompt: "What is a cell?",
+    });
+    expect(imported?.notice).toMatch(/^1 question has no answer/);
+  });
+
+  it("still requires the answer key for multiple-choice questions", () => {
+    const text = buildGuideText(GUIDE, options).split(`=== ${defaultConfig.answer_key_heading} ===`)[0];
+    expect(() => parseGuideImport(text, "biology.txt", defaultConfig)).toThrow(GuideImportError);
+  });
+
+  it("rejects exports from newer versions", () => {
+    const file = JSON.stringify({ format: "examace-study-guide", version: 99, guide: GUIDE });
+    expect(() => parseGuideImport(file, "guide.json", defaultConfig)).toThrow(/newer version/);
+  });
+
+  it("leaves other files to the extractors", () => {
+    expect(parseGuideImport("Lecture 3: cells", "notes.txt", defaultConfig)).toBeNull();
+    expect(parseGuideImport('{"name": "x"}', "package.json", defaultConfig)).toBeNull();
+  });
+});
@@ -0,0 +1,417 @@
+// Reading exported guides back into the app: the JSON export (any version up
+// to the current one) and the plain text export. Uploads that are neither
+// are left to the extractors as study material.
+//
+// The text export is meant for reading, so importing it is best effort:
+// multi-line text whose lines look like list numbers or options can end up
+// in the wrong place. The JSON export round-trips exactly.
+//
+// The app's first exports (the original text export and the bare JSON the
+// generation API returned) have only the text of each question. Those become
+// short-answer questions with a placeholder answer for the user to fill in.
+
+import type { AppConfig } from "./appConfig";
+import type { GuideFile } from "./exporters/json";
+import { GUIDE_FILE_FORMAT, GUIDE_FILE_VERSION } from "./exporters/json";
+import { PRESETS } from "./presets";
+import type {
+  Concept,
+  Difficulty,
+  ExtraItem,
+  GuideExtras,
+  PracticeQuestion,
+  StudyGuide,
+} from "./studyGuide";
+import { DIFFICULTIES, validateStudyGuide } from "./studyGuide";
+
+export type ImportedGuide = {
+  /** Title stored in the export, if it has one. */
+  title: string | null;
+  guide: StudyGuide;
+  /** Something the user should know about the import, e.g. missing answers. */
+  notice: string | null;
+};
+
+// Thrown for files that are guide exports but can't be imported. The message
+// is safe to show to end users.
+export class GuideImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GuideImportError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkedGuide(value: unknown): StudyGuide {
+  const result = validateStudyGuide(value);
+  if (!result.ok) {
+    throw new GuideImportError(
+      `This guide export is damaged and can't be imported (${result.errors.slice(0, 3).join("; ")}).`
+    );
+  }
+  return result.value;
+}
+
+const MISSING_ANSWER = "This question was imported from an export without answers.";
+
+function unansweredQuestion(prompt: string): PracticeQuestion {
+  return {
+    type: "short_answer",
+    prompt,
+    model_answer: MISSING_ANSWER,
+    explanation: MISSING_ANSWER,
+    difficulty: DIFFICULTIES[1],
+  };
+}
+
+function importNotice(guide: StudyGuide): string | null {
+  const count = guide.questions.filter(
+    (q) => q.type === "short_answer" && q.model_answer === MISSING_ANSWER
+  ).length;
+  if (count === 0) return null;
+  return `${count} question${count === 1 ? " has" : "s have"} no answer in this export. They were imported as short-answer questions; edit them to add the answers.`;
+}
+
+// --------- JSON ----------
+
+// Upgrades from each older version to the next. Version 0 is a bare
+// StudyGuide object, as the generation API returns it; the first API version
+// returned the questions as plain strings.
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (guide) => ({
+    format: GUIDE_FILE_FORMAT,
+    version: 1,
+    title: null,
+    guide: {
+      ...guide,
+      questions: Array.isArray(guide.questions)
+        ? guide.questions.map((q) => (typeof q === "string" ? unansweredQuestion(q.trim()) : q))
+        : guide.questions,
+    },
+  }),
+};
+
+function fileVersion(value: Record<string, unknown>): number | null {
+  if (value.format === GUIDE_FILE_FORMAT) {
+    const { version } = value;
+    if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+      throw new GuideImportError("This guide export has an invalid format version.");
+    }
+    return version;
+  }
+  // A bare guide from before the versioned format
+  if ("summary" in value && "concepts" in value && "questions" in value) return 0;
+  return null;
+}
+
+function parseGuideJson(text: string): ImportedGuide | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed)) return null;
+
+  let version = fileVersion(parsed);
+  if (version === null) return null;
+  if (version > GUIDE_FILE_VERSION) {
+    throw new GuideImportError(
+      `This guide was exported by a newer version of the app (format ${version}). Update the app to import it.`
+    );
+  }
+
+  let file = parsed;
+  while (version < GUIDE_FILE_VERSION) {
+    file = MIGRATIONS[version](file);
+    version++;
+  }
+
+  const { title, guide } = file as Partial<GuideFile>;
+  const checked = checkedGuide(guide);
+  return {
+    title: typeof title === "string" && title.trim() ? title.trim() : null,
+    guide: checked,
+    notice: importNotice(checked),
+  };
+}
+
+// --------- PLAIN TEXT ----------
+
+const HEADING_PATTERN = /^=== (.+) ===$/;
+const ITEM_PATTERN = /^(\d+)\. (.*)$/;
+const OPTION_PATTERN = /^ {3}([A-Z])\) (.*)$/;
+const ANSWER_END_PATTERN = / \[(easy|medium|hard)\]$/;
+
+const PLACEHOLDERS = new Set([
+  "No summary generated.",
+  "No key concepts generated.",
+  "No questions generated.",
+  "No detailed summary generated.",
+]);
+
+type Section = { heading: string; lines: string[] };
+
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      sections.push({ heading: heading[1], lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function sectionText(lines: string[]): string {
+  const text = lines.join("\n").trim();
+  return PLACEHOLDERS.has(text) ? "" : text;
+}
+
+const append = (text: string, line: string) => (text ? `${text}\n${line}` : line);
+
+function parseConcepts(lines: string[]): Concept[] {
+  const concepts: Concept[] = [];
+  let field: "term" | "def" | "explanation" | "example" = "term";
+
+  for (const line of lines) {
+    const item = ITEM_PATTERN.exec(line);
+    const current = concepts[concepts.length - 1];
+    if (item) {
+      const concept: Concept = { term: item[2], def: "" };
+      // "Term [source, p. 3]"
+      const cite = /^(.*?) \[([^\]]+)\]$/.exec(item[2]);
+      if (cite) {
+        concept.term = cite[1];
+        for (const part of cite[2].split(", ")) {
+          const page = /^p\. (\d+)$/.exec(part);
+          if (page) concept.page = Number(page[1]);
+          else concept.source = part;
+        }
+      }
+      concepts.push(concept);
+      field = "term";
+    } else if (!current || PLACEHOLDERS.has(line.trim())) {
+      continue;
+    } else if (field === "term" && line.startsWith("   - ")) {
+      current.def = line.slice(5);
+      field = "def";
+    } else if (line.startsWith("     e.g. ")) {
+      current.examples = [...(current.examples ?? []), line.slice(10)];
+      field = "example";
+    } else if (line.startsWith("     ") && field !== "example") {
+      current.explanation = append(current.explanation ?? "", line.slice(5));
+      field = "explanation";
+    } else if (field === "def") {
+      current.def = append(current.def, line);
+    } else if (field === "explanation") {
+      current.explanation = append(current.explanation ?? "", line);
+    } else if (field === "example" && current.examples) {
+      const last = current.examples.length - 1;
+      current.examples[last] = append(current.examples[last], line);
+    } else {
+      current.term = append(current.term, line);
+    }
+  }
+  return concepts;
+}
+
+type QuestionDraft = { prompt: string; options: string[]; trueFalse: boolean };
+type AnswerDraft = { answer: string; difficulty?: Difficulty; explanation: string };
+
+function parseQuestionDrafts(lines: string[]): QuestionDraft[] {
+  const drafts: QuestionDraft[] = [];
+  for (const line of lines) {
+    const item = ITEM_PATTERN.exec(line);
+    const current = drafts[drafts.length - 1];
+    const option = OPTION_PATTERN.exec(line);
+    if (item) {
+      drafts.push({ prompt: item[2], options: [], trueFalse: false });
+    } else if (!current || PLACEHOLDERS.has(line.trim())) {
+      continue;
+    } else if (option) {
+      current.options.push(option[2]);
+    } else if (line === "   True / False") {
+      current.trueFalse = true;
+    } else if (current.options.length > 0) {
+      current.options[current.options.length - 1] = append(
+        current.options[current.options.length - 1],
+        line
+      );
+    } else {
+      current.prompt = append(current.prompt, line);
+    }
+  }
+  return drafts;
+}
+
+function parseAnswers(lines: string[]): AnswerDraft[] {
+  const answers: AnswerDraft[] = [];
+  // The answer may span lines; it ends with " [difficulty]"
+  let inAnswer = false;
+
+  for (const line of lines) {
+    const item = !inAnswer ? ITEM_PATTERN.exec(line) : null;
+    const current = answers[answers.length - 1];
+    let answerLine: string | null = null;
+
+    if (item) {
+      answers.push({ answer: "", explanation: "" });
+      answerLine = item[2];
+    } else if (!current) {
+      continue;
+    } else if (inAnswer) {
+      answerLine = line;
+    } else if (line.startsWith("   - ") && !current.explanation) {
+      current.explanation = line.slice(5);
+      continue;
+    } else {
+      current.explanation = append(current.explanation, line);
+      continue;
+    }
+
+    const entry = answers[answers.length - 1];
+    const end = ANSWER_END_PATTERN.exec(answerLine);
+    if (end) {
+      entry.answer = append(entry.answer, answerLine.slice(0, end.index));
+      entry.difficulty = end[1] as Difficulty;
+      inAnswer = false;
+    } else {
+      entry.answer = append(entry.answer, answerLine);
+      inAnswer = true;
+    }
+  }
+  return answers;
+}
+
+function buildQuestion(draft: QuestionDraft, answer: AnswerDraft | undefined, number: number) {
+  if (!answer) {
+    throw new GuideImportError(`Question ${number} has no entry in the answer key.`);
+  }
+  const base = {
+    prompt: draft.prompt.trim(),
+    explanation: answer.explanation.trim(),
+    difficulty: answer.difficulty ?? DIFFICULTIES[1],
+  };
+  const given = answer.answer.trim();
+
+  if (draft.options.length > 0) {
+    // "B) The option text"
+    const label = /^([A-Z])\) /.exec(given);
+    const answerIndex = label
+      ? label[1].charCodeAt(0) - 65
+      : draft.options.findIndex((option) => option.trim() === given);
+    return { ...base, type: "multiple_choice", options: draft.options, answer_index: answerIndex };
+  }
+  if (draft.trueFalse) {
+    return { ...base, type: "true_false", answer: given.toLowerCase() === "true" };
+  }
+  return { ...base, type: "short_answer", model_answer: given };
+}
+
+function extraSectionKey(heading: string): { key: string; titleField: string } {
+  for (const preset of Object.values(PRESETS)) {
+    const section = preset.extraSections.find((s) => s.heading === heading);
+    if (section) return { key: section.key, titleField: Object.keys(section.fields)[0] };
+  }
+  return { key: heading.toLowerCase().replace(/\s+/g, "_"), titleField: "title" };
+}
+
+function parseExtraItems(lines: string[], titleField: string): ExtraItem[] {
+  const items: ExtraItem[] = [];
+  let field = titleField;
+
+  for (const line of lines) {
+    const item = ITEM_PATTERN.exec(line);
+    const current = items[items.length - 1];
+    const entry = /^ {3}- ([^:]+): (.*)$/.exec(line);
+    if (item) {
+      items.push({ [titleField]: item[2] });
+      field = titleField;
+    } else if (!current || !line.trim()) {
+      continue;
+    } else if (entry) {
+      field = entry[1].replace(/ /g, "_");
+      current[field] = entry[2];
+    } else {
+      current[field] = append(current[field] ?? "", line);
+    }
+  }
+  return items;
+}
+
+function parseGuideText(text: string, config: AppConfig): ImportedGuide | null {
+  const sections = splitSections(text);
+  const headings = sections.map((section) => section.heading);
+  // Only the app's own export starts with the summary heading
+  const firstLine = text.trimStart().split(/\r?\n/, 1)[0];
+  if (
+    firstLine !== `=== ${config.summary_heading} ===` ||
+    !headings.includes(config.concepts_heading) ||
+    !headings.includes(config.questions_heading)
+  ) {
+    return null;
+  }
+
+  const guide: Record<string, unknown> = { summary: "", detailed_summary: "", concepts: [] };
+  const extras: GuideExtras = {};
+  let drafts: QuestionDraft[] = [];
+  let answers: AnswerDraft[] = [];
+
+  for (const { heading, lines } of sections) {
+    if (heading === config.summary_heading) {
+      guide.summary = sectionText(lines);
+    } else if (heading === config.detailed_summary_heading) {
+      guide.detailed_summary = sectionText(lines);
+    } else if (heading === config.concepts_heading) {
+      guide.concepts = parseConcepts(lines);
+    } else if (heading === config.questions_heading) {
+      drafts = parseQuestionDrafts(lines);
+    } else if (heading === config.answer_key_heading) {
+      answers = parseAnswers(lines);
+    } else {
+      const { key, titleField } = extraSectionKey(heading);
+      extras[key] = parseExtraItems(lines, titleField);
+    }
+  }
+
+  // The original text export listed bare question texts without an answer key
+  const unanswered =
+    !headings.includes(config.answer_key_heading) &&
+    drafts.every((draft) => draft.options.length === 0 && !draft.trueFalse);
+  guide.questions = drafts.map((draft, i) =>
+    unanswered ? unansweredQuestion(draft.prompt.trim()) : buildQuestion(draft, answers[i], i + 1)
+  );
+  if (Object.keys(extras).length > 0) guide.extras = extras;
+
+  const checked = checkedGuide(guide);
+  return { title: null, guide: checked, notice: importNotice(checked) };
+}
+
+// ------------------------------------------
+
+/**
+ * The guide in an uploaded file, if the file is one of the app's exports;
+ * null for anything else. Throws GuideImportError for exports that can't be
+ * read, e.g. from a newer version of the app.
+ */
+export function parseGuideImport(
+  text: string,
+  fileName: string,
+  config: AppConfig
+): ImportedGuide | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (extension === "json") return parseGuideJson(text);
+  if (extension === "txt") return parseGuideText(text, config);
+  return null;
+}
+
+/** Whether a file could be a guide export, so it's worth reading before extraction. */
+export function isGuideImportCandidate(fileName: string): boolean {
+  return /\.(json|txt)$/i.test(fileName);
+}
@@ -0,0 +1,126 @@
+// Saved study guides, stored in the browser's IndexedDB so they survive
+// reloads without any server-side storage.
+
+import type { StudyGuide } from "./studyGuide";
+
+export type SavedGuide = {
+  id: string;
+  title: string;
+  sourceFileName: string | null;
+  createdAt: string;
+  /** The material the guide was generated from, so it can be regenerated. */
+  inputText: string;
+  guide: StudyGuide;
+};
+
+const DB_NAME = "examace";
+const DB_VERSION = 1;
+const STORE = "guides";
+
+const MAX_TITLE_LENGTH = 80;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error ?? new Error("Failed to open the guide library"));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+/** A readable default title: the file name, else the first line of the input. */
+export function defaultGuideTitle(
+  inputText: string,
+  sourceFileName: string | null
+): string {
+  if (sourceFileName) {
+    return sourceFileName.replace(/\.[^.]+$/, "").slice(0, MAX_TITLE_LENGTH);
+  }
+
+  const firstLine =
+    inputText
+      .split("\n")
+      .map((line) => line.trim())
+      .find(Boolean) ?? "";
+  if (!firstLine) return "Untitled guide";
+
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+}
+
+/** All saved guides, newest first. */
+export async function listGuides(): Promise<SavedGuide[]> {
+  const guides = await withStore<SavedGuide[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return guides.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveGuide(
+  entry: Omit<SavedGuide, "id" | "createdAt">
+): Promise<SavedGuide> {
+  const saved: SavedGuide = {
+    ...entry,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  await withStore("readwrite", (store) => store.put(saved));
+  return saved;
+}
+
+export async function renameGuide(id: string, title: string): Promise<void> {
+  const existing = await withStore<SavedGuide | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  if (!existing) return;
+
+  const trimmed = title.trim().slice(0, MAX_TITLE_LENGTH);
+  await withStore("readwrite", (store) =>
+    store.put({ ...existing, title: trimmed || existing.title })
+  );
+}
+
+/** Replace the guide content of a saved entry, e.g. after regenerating a section. */
+export async function updateGuide(id: string, guide: StudyGuide): Promise<void> {
+  const existing = await withStore<SavedGuide | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  if (!existing) return;
+
+  await withStore("readwrite", (store) => store.put({ ...existing, guide }));
+}
+
+export async function deleteGuide(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseModelJson } from "./jsonRepair";
+
+const parse = (content: string) => {
+  const result = parseModelJson(content);
+  if (!result.ok) throw new Error(result.error);
+  return result.value;
+};
+
+describe("parseModelJson", () => {
+  it("keeps unescaped LaTeX commands inside math", () => {
+    expect(parse(String.raw`{"def": "$\frac{a}{b} \ne \nu \times 2$"}`)).toEqual({
+      def: String.raw`$\frac{a}{b} \ne \nu \times 2$`,
+    });
+  });
+
+  it("keeps escaped backslashes in math as they are", () => {
+    expect(parse(String.raw`{"def": "$$\\theta \\tan x$$"}`)).toEqual({
+      def: String.raw`$$\theta \tan x$$`,
+    });
+  });
+
+  it("reads JSON escapes outside math as escapes", () => {
+    expect(parse(String.raw`{"def": "Line one\ne.g. two\nuclei\tand $x$"}`)).toEqual({
+      def: "Line one\ne.g. two\nuclei\tand $x$",
+    });
+  });
+
+  it("repairs fences, trailing commas and raw line breaks", () => {
+    expect(parse('```json\n{"a": "one\ntwo", "b": [1, 2,],}\n```')).toEqual({
+      a: "one\ntwo",
+      b: [1, 2],
+    });
+  });
+});
@@ -0,0 +1,131 @@
+// Helpers for turning raw LLM output into parsed JSON. Models often wrap the
+// object in code fences or prose, use typographic quotes, leave trailing
+// commas or put raw line breaks inside strings; these are fixed before
+// giving up.
+
+const SMART_DOUBLE_QUOTES = /[“”„‟″]/;
+
+// Valid JSON escapes; a backslash before anything else is a literal one the
+// model forgot to escape (LaTeX: \alpha, \sum, \cdot, ...)
+const JSON_ESCAPES = /^["\\/bfnrtu]$/;
+
+// LaTeX commands starting with a valid escape letter, so an unescaped
+// "\frac" would parse without error as a form feed followed by "rac".
+// Escaped backslashes are matched first and kept as they are. Only applied
+// inside $...$ math, since elsewhere "\nuclei" is a line break and "nuclei".
+const LATEX_LOOKALIKES =
+  /\\\\|\\(frac|times|theta|tau|tan|text|textbf|beta|bar|begin|binom|boldsymbol|nabla|neq|ne|nu|not|right|rightarrow|rho|forall)(?![a-zA-Z])/g;
+
+// Inline or display math within one JSON string (spans never cross a quote)
+const MATH_SPAN = /\$\$[^"$]+\$\$|\$[^"$]+\$/g;
+
+export type ParsedJson = { ok: true; value: unknown } | { ok: false; error: string };
+
+/** Strip code fences and surrounding prose, keeping the outermost object. */
+export function extractJsonObject(content: string): string {
+  let text = content.trim();
+
+  // Only a fence before the object wraps it; later ones are inside strings
+  const fence = text.match(/```(?:json|JSON)?\s*([\s\S]*)```/);
+  if (fence && text.indexOf("```") < text.indexOf("{")) text = fence[1].trim();
+
+  const firstBrace = text.indexOf("{");
+  const lastBrace = text.lastIndexOf("}");
+  return firstBrace !== -1 && lastBrace > firstBrace
+    ? text.slice(firstBrace, lastBrace + 1)
+    : text;
+}
+
+function nextNonSpace(text: string, from: number): string {
+  for (let i = from; i < text.length; i++) {
+    if (!/\s/.test(text[i])) return text[i];
+  }
+  return "";
+}
+
+function isQuote(c: string): boolean {
+  return c === '"' || SMART_DOUBLE_QUOTES.test(c);
+}
+
+/**
+ * Rewrite common LLM JSON mistakes into valid JSON:
+ * - typographic double quotes used as string delimiters
+ * - unescaped double quotes and raw control characters inside strings
+ * - unescaped backslashes (LaTeX commands) inside strings
+ * - trailing commas before `}` or `]`
+ */
+export function repairJson(text: string): string {
+  let out = "";
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+
+    if (inString) {
+      if (c === "\\" && !JSON_ESCAPES.test(text[i + 1] ?? "")) {
+        out += "\\\\";
+      } else if (c === "\\") {
+        out += c + (text[i + 1] ?? "");
+        i++;
+      } else if (isQuote(c)) {
+        // A quote only closes the string if JSON structure follows it
+        if (/^[:,}\]]?$/.test(nextNonSpace(text, i + 1))) {
+          out += '"';
+          inString = false;
+        } else {
+          out += c === '"' ? '\\"' : c;
+        }
+      } else if (c === "\n") {
+        out += "\\n";
+      } else if (c === "\r") {
+        // Dropped; "\n" carries the line break
+      } else if (c === "\t") {
+        out += "\\t";
+      } else if (c < " ") {
+        out += " ";
+      } else {
+        out += c;
+      }
+      continue;
+    }
+
+    if (isQuote(c)) {
+      out += '"';
+      inString = true;
+    } else if (c === "," && /^[}\]]$/.test(nextNonSpace(text, i + 1))) {
+      // Trailing comma
+    } else {
+      out += c;
+    }
+  }
+
+  return out;
+}
+
+function escapeLatexCommands(text: string): string {
+  return text.replace(MATH_SPAN, (math) =>
+    math.replace(LATEX_LOOKALIKES, (match, command) =>
+      command ? `\\\\${command}` : match
+    )
+  );
+}
+
+/** Parse model output as JSON, repairing it if a plain parse fails. */
+export function parseModelJson(content: string): ParsedJson {
+  const slice = escapeLatexCommands(extractJsonObject(content));
+
+  try {
+    return { ok: true, value: JSON.parse(slice) };
+  } catch {
+    // Fall through to the repair pass
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(repairJson(slice)) };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : "Invalid JSON",
+    };
+  }
+}
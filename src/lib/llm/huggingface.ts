@@ -0,0 +1,54 @@
+import { InferenceClient } from "@huggingface/inference";
+import type { ChatMessage, ChatOptions, LLMProvider } from "./types";
+import { ProviderResponseError } from "./types";
+
+export function createHuggingFaceProvider({
+  apiKey,
+  model,
+}: {
+  apiKey: string;
+  model: string;
+}): LLMProvider {
+  const hf = new InferenceClient(apiKey);
+
+  const args = (messages: ChatMessage[], options: ChatOptions) => ({
+    model,
+    messages,
+    max_tokens: options.maxTokens,
+    temperature: options.temperature,
+  });
+
+  return {
+    label: "Hugging Face",
+    model,
+
+    async chat(messages, options) {
+      const completion = await hf.chatCompletion(args(messages, options), {
+        signal: options.signal,
+      });
+
+      const content = completion?.choices?.[0]?.message?.content;
+
+      if (!content || typeof content !== "string") {
+        console.error("Unexpected HF output:", completion);
+        throw new ProviderResponseError(
+          "Unexpected Hugging Face response",
+          completion
+        );
+      }
+
+      return content;
+    },
+
+    async *chatStream(messages, options) {
+      const stream = hf.chatCompletionStream(args(messages, options), {
+        signal: options.signal,
+      });
+
+      for await (const chunk of stream) {
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { createHuggingFaceProvider } from "./huggingface";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import type { LLMProvider } from "./types";
+import { ProviderConfigError } from "./types";
+
+export type { ChatMessage, ChatOptions, LLMProvider } from "./types";
+export { ProviderConfigError, ProviderResponseError } from "./types";
+
+export const DEFAULT_HUGGINGFACE_MODEL = "meta-llama/Llama-3.1-8B-Instruct";
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Build the provider selected by `LLM_PROVIDER` (huggingface, openai or
+ * mock; defaults to huggingface). `LLM_MODEL` overrides the provider's own
+ * model setting.
+ */
+export function getProvider(env: Env = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "huggingface").trim().toLowerCase();
+
+  switch (name) {
+    case "huggingface": {
+      const apiKey = env.HUGGINGFACE_API_KEY;
+      if (!apiKey) {
+        throw new ProviderConfigError("Missing HUGGINGFACE_API_KEY");
+      }
+      return createHuggingFaceProvider({
+        apiKey,
+        model:
+          env.LLM_MODEL || env.HUGGINGFACE_MODEL || DEFAULT_HUGGINGFACE_MODEL,
+      });
+    }
+
+    case "openai": {
+      const model = env.LLM_MODEL || env.OPENAI_MODEL;
+      if (!model) {
+        throw new ProviderConfigError("Missing OPENAI_MODEL (or LLM_MODEL)");
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        model,
+      });
+    }
+
+    case "mock":
+      return createMockProvider({ model: env.LLM_MODEL || "mock" });
+
+    default:
+      throw new ProviderConfigError(
+        `Unknown LLM_PROVIDER "${name}". Use huggingface, openai or mock.`
+      );
+  }
+}
@@ -0,0 +1,236 @@
+import type { Concept, PracticeQuestion, StudyGuide } from "../studyGuide";
+import { lastPageNumber } from "../pdfLayout";
+import { splitSources } from "../sources";
+import type { ChatMessage, LLMProvider } from "./types";
+
+// Deterministic offline provider. It never calls a model: it reads the study
+// material out of the prompt and derives a guide from it with simple text
+// heuristics, so the same input always yields the same output.
+
+const MAX_CONCEPTS = 8;
+const MAX_QUESTIONS = 5;
+
+function lastUserPrompt(messages: ChatMessage[]): string {
+  return [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
+
+function extractMaterial(prompt: string): string {
+  const start = prompt.indexOf('"""');
+  const end = prompt.lastIndexOf('"""');
+  return start !== -1 && end > start ? prompt.slice(start + 3, end).trim() : prompt.trim();
+}
+
+// Sentences per line, without page markers, heading hashes or bullets
+function splitSentences(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:\[Page \d+\]|#+|[-*•])\s*/, ""))
+    .flatMap((line) => line.split(/(?<=[.!?])\s+/))
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+function findConcepts(text: string): Concept[] {
+  const concepts: Concept[] = [];
+  const seen = new Set<string>();
+
+  const add = (term: string, def: string) => {
+    const key = term.toLowerCase();
+    if (seen.has(key) || concepts.length >= MAX_CONCEPTS) return;
+    seen.add(key);
+    concepts.push({ term, def });
+  };
+
+  // "Term: definition" or "- Term - definition" lines
+  for (const line of text.split("\n")) {
+    const match = line.match(/^\s*(?:[-*•]\s*)?([A-Z][\w ()'-]{1,40}?)\s*[:–—-]\s+(.{10,})$/);
+    if (match) add(match[1].trim(), match[2].trim());
+  }
+
+  // "X is/are/refers to Y." sentences
+  for (const sentence of splitSentences(text)) {
+    const match = sentence.match(/^([A-Z][\w ()'-]{1,40}?)\s+(?:is|are|refers to|means)\s+(.{10,})$/);
+    if (match) add(match[1].trim(), match[2].replace(/[.!?]$/, "").trim());
+  }
+
+  return concepts;
+}
+
+export function buildMockGuide(material: string): StudyGuide {
+  // Multi-source material: tag each concept with the first source defining it
+  const sources = splitSources(material);
+  const body = sources.length > 0 ? sources.map((s) => s.text).join("\n\n") : material;
+  const sentences = splitSentences(body);
+  const concepts = findConcepts(body).map((c) => {
+    const origin = sources.find((s) => s.text.includes(c.term));
+    const text = origin?.text ?? body;
+    const page = lastPageNumber(text.slice(0, text.indexOf(c.term)));
+    // The first sentence naming the term serves as the supporting quote
+    const quote = sentences.find((s) => s.includes(c.term));
+    return {
+      ...c,
+      ...(quote ? { quote } : {}),
+      ...(origin ? { source: origin.name } : {}),
+      ...(page !== null ? { page } : {}),
+    };
+  });
+
+  // Cycle through the question types so every kind is exercised
+  const questions = concepts.slice(0, MAX_QUESTIONS).map((c, i): PracticeQuestion => {
+    const explanation = `The material defines ${c.term} as ${c.def}.`;
+    const concept = c.term;
+    const source = c.source;
+    const quote = c.quote;
+    switch (i % 3) {
+      case 0:
+        return {
+          type: "short_answer",
+          prompt: `What is meant by "${c.term}"?`,
+          model_answer: c.def,
+          explanation,
+          difficulty: "easy",
+          concept,
+          source,
+          quote,
+        };
+      case 1: {
+        const options = concepts.slice(0, 4).map((o) => o.term);
+        if (!options.includes(c.term)) options[options.length - 1] = c.term;
+        return {
+          type: "multiple_choice",
+          prompt: `Which term matches this description: ${c.def}?`,
+          options,
+          answer_index: options.indexOf(c.term),
+          explanation,
+          difficulty: "medium",
+          concept,
+          source,
+          quote,
+        };
+      }
+      default:
+        return {
+          type: "true_false",
+          prompt: `True or false: ${c.term} is ${c.def}.`,
+          answer: true,
+          explanation,
+          difficulty: "easy",
+          concept,
+          source,
+          quote,
+        };
+    }
+  });
+  if (questions.length === 0 && sentences.length > 0) {
+    questions.push({
+      type: "short_answer",
+      prompt: "Summarize the main idea of the material in your own words.",
+      model_answer: sentences.slice(0, 2).join(" "),
+      explanation: "The opening of the material states its main idea.",
+      difficulty: "medium",
+      quote: sentences[0],
+    });
+  }
+
+  const paragraphs: string[] = [];
+  for (let i = 0; i < Math.min(sentences.length, 12); i += 3) {
+    paragraphs.push(sentences.slice(i, i + 3).join(" "));
+  }
+
+  return {
+    summary: sentences.slice(0, 2).join(" "),
+    detailed_summary: paragraphs.join("\n\n"),
+    concepts,
+    questions,
+  };
+}
+
+// Extra sections a subject preset asks for, read from the JSON shape in the
+// prompt: `"timeline": [ { "date": "string", ... } ]` → timeline: [date, ...]
+function requestedExtras(prompt: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  const pattern = /^\s*"(\w+)": \[\n\s*\{ ((?:"\w+": "string"(?:, )?)+) \}/gm;
+  for (const match of prompt.matchAll(pattern)) {
+    if (match[1] === "concepts") continue;
+    sections.set(match[1], Array.from(match[2].matchAll(/"(\w+)": "string"/g), (m) => m[1]));
+  }
+  return sections;
+}
+
+// One item per concept: the term fills the first field, the definition the rest
+function buildMockExtras(prompt: string, concepts: Concept[]) {
+  const extras: Record<string, Record<string, string>[]> = {};
+  for (const [key, fields] of requestedExtras(prompt)) {
+    extras[key] = concepts.map((c) =>
+      Object.fromEntries(fields.map((field, i) => [field, i === 0 ? c.term : c.def]))
+    );
+  }
+  return extras;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+}
+
+// Grades by word overlap between the model answer and the student answer.
+function buildMockGrade(prompt: string) {
+  const expected = words(prompt.match(/Model answer: (.*)/)?.[1] ?? "");
+  const given = words(extractMaterial(prompt.slice(prompt.indexOf("Student answer:"))));
+  const hits = [...expected].filter((w) => given.has(w)).length;
+  const score = expected.size > 0 ? Math.round((hits / expected.size) * 100) / 100 : 0;
+
+  return {
+    correct: score >= 0.6,
+    score,
+    feedback:
+      score >= 0.6
+        ? "Your answer covers the key ideas of the model answer."
+        : "Your answer is missing key ideas from the model answer.",
+  };
+}
+
+// Material sentences mentioning the concept: the first few explain it, the
+// next ones serve as examples.
+function buildMockExpansion(prompt: string) {
+  const term = prompt.match(/Concept to expand: (.*)/)?.[1].trim() ?? "";
+  const def = prompt.match(/Current definition: (.*)/)?.[1].trim() ?? "";
+  const mentions = splitSentences(extractMaterial(prompt)).filter((s) =>
+    s.toLowerCase().includes(term.toLowerCase())
+  );
+
+  return {
+    explanation: mentions.slice(0, 3).join(" ") || `${term}: ${def}`,
+    examples: mentions.length > 3 ? mentions.slice(3, 6) : [`${term} in this material: ${def}`],
+  };
+}
+
+export function createMockProvider({ model }: { model: string }): LLMProvider {
+  const respond = (messages: ChatMessage[]) => {
+    const prompt = lastUserPrompt(messages);
+    if (prompt.includes("Student answer:")) {
+      return JSON.stringify(buildMockGrade(prompt));
+    }
+    if (prompt.includes("Concept to expand:")) {
+      return JSON.stringify(buildMockExpansion(prompt));
+    }
+    const guide = buildMockGuide(extractMaterial(prompt));
+    return JSON.stringify({ ...guide, ...buildMockExtras(prompt, guide.concepts) });
+  };
+
+  return {
+    label: "Mock provider",
+    model,
+
+    async chat(messages) {
+      return respond(messages);
+    },
+
+    async *chatStream(messages, options) {
+      const content = respond(messages);
+      for (let i = 0; i < content.length; i += 40) {
+        if (options.signal?.aborted) return;
+        yield content.slice(i, i + 40);
+      }
+    },
+  };
+}
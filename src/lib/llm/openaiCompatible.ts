@@ -0,0 +1,103 @@
+import type { ChatMessage, ChatOptions, LLMProvider } from "./types";
+import { ProviderResponseError } from "./types";
+
+/**
+ * Provider for any server implementing the OpenAI `/chat/completions` API,
+ * e.g. a local llama.cpp server, Ollama, vLLM or LM Studio.
+ */
+export function createOpenAICompatibleProvider({
+  baseUrl,
+  apiKey,
+  model,
+}: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): LLMProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const request = async (
+    messages: ChatMessage[],
+    options: ChatOptions,
+    stream: boolean
+  ) => {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new ProviderResponseError(
+        `OpenAI-compatible server returned ${res.status}`,
+        text
+      );
+    }
+
+    return res;
+  };
+
+  return {
+    label: "OpenAI-compatible server",
+    model,
+
+    async chat(messages, options) {
+      const completion = await (await request(messages, options, false)).json();
+      const content = completion?.choices?.[0]?.message?.content;
+
+      if (!content || typeof content !== "string") {
+        console.error("Unexpected OpenAI-compatible output:", completion);
+        throw new ProviderResponseError(
+          "Unexpected OpenAI-compatible server response",
+          completion
+        );
+      }
+
+      return content;
+    },
+
+    async *chatStream(messages, options) {
+      const res = await request(messages, options, true);
+      if (!res.body) return;
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") return;
+
+          try {
+            const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+            if (delta) yield delta as string;
+          } catch {
+            // Keep-alive or partial line; skip it
+          }
+        }
+      }
+    },
+  };
+}
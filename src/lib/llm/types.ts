@@ -0,0 +1,42 @@
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatOptions = {
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * A chat-completion backend. Providers return the assistant message text;
+ * interpreting it (JSON extraction, validation) is up to the caller.
+ */
+export interface LLMProvider {
+  /** Human-readable backend name used in error messages. */
+  readonly label: string;
+  readonly model: string;
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<string>;
+  chatStream(messages: ChatMessage[], options: ChatOptions): AsyncIterable<string>;
+}
+
+// Thrown when the configured provider cannot be constructed, e.g. a missing
+// API key. The message names the setting to fix.
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
+
+// Thrown when a backend answers with something that isn't a chat completion.
+export class ProviderResponseError extends Error {
+  details?: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = "ProviderResponseError";
+    this.details = details;
+  }
+}
@@ -0,0 +1,249 @@
+// Guide text (summaries, definitions, questions, ...) may use a Markdown
+// subset: emphasis, lists, tables, inline and fenced code, and LaTeX math in
+// $...$ or $$...$$. Everything is rendered through one pipeline that
+// sanitizes the model's output before math and code highlighting add their
+// own markup, so the HTML is safe to inject in panels and exports alike.
+// PDF and Word exports take the parsed text as blocks instead (see below).
+
+import type { Element, ElementContent, Root, RootContent } from "hast";
+import type { Nodes as MdastNodes, PhrasingContent, Root as MdastRoot } from "mdast";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import { unified } from "unified";
+
+export type MarkdownOptions = {
+  /** Unwrap a lone paragraph, for text that sits inside a line or list item. */
+  inline?: boolean;
+  /**
+   * "katex" renders math for the page (needs the KaTeX stylesheet), "tex"
+   * keeps it as \(...\) and \[...\] for tools with their own MathJax (Anki).
+   */
+  math?: "katex" | "tex";
+};
+
+// No headings above h3 (they would outrank the panel headings), no images,
+// no raw HTML. Disallowed elements are unwrapped to their text.
+const ALLOWED_TAGS = [
+  "p",
+  "br",
+  "strong",
+  "em",
+  "del",
+  "code",
+  "pre",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "a",
+  "hr",
+  "h3",
+  "h4",
+  "table",
+  "thead",
+  "tbody",
+  "tr",
+  "th",
+  "td",
+];
+
+const schema = { ...defaultSchema, tagNames: ALLOWED_TAGS };
+
+function isMath(node: ElementContent | RootContent): node is Element {
+  if (node.type !== "element" || node.tagName !== "code") return false;
+  const classes = node.properties.className;
+  return Array.isArray(classes) && classes.includes("language-math");
+}
+
+function mathText(code: Element): string {
+  return code.children.map((child) => (child.type === "text" ? child.value : "")).join("");
+}
+
+// Replace math code elements by their TeX between MathJax delimiters
+function keepTex() {
+  const walk = (parent: Root | Element) => {
+    parent.children = parent.children.map((child) => {
+      if (child.type !== "element") return child;
+      const [first] = child.children;
+      if (child.tagName === "pre" && first && isMath(first)) {
+        return { type: "text", value: `\\[${mathText(first)}\\]` };
+      }
+      if (isMath(child)) {
+        return { type: "text", value: `\\(${mathText(child)}\\)` };
+      }
+      walk(child);
+      return child;
+    }) as typeof parent.children;
+  };
+  return (tree: Root) => walk(tree);
+}
+
+function unwrapParagraph() {
+  return (tree: Root) => {
+    const blocks = tree.children.filter(
+      (child) => child.type !== "text" || child.value.trim() !== ""
+    );
+    const [only] = blocks;
+    if (blocks.length === 1 && only.type === "element" && only.tagName === "p") {
+      tree.children = only.children;
+    }
+  };
+}
+
+function buildProcessor({ inline = false, math = "katex" }: MarkdownOptions) {
+  const processor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath)
+    .use(remarkRehype)
+    .use(rehypeSanitize, schema);
+
+  if (math === "tex") {
+    processor.use(keepTex);
+  } else {
+    processor.use(rehypeKatex, { output: "htmlAndMathml" });
+  }
+  processor.use(rehypeHighlight);
+  if (inline) processor.use(unwrapParagraph);
+
+  return processor.use(rehypeStringify);
+}
+
+const processors = new Map<string, ReturnType<typeof buildProcessor>>();
+
+// Panels re-render on every streamed section, so rendered strings are cached
+const MAX_CACHED = 500;
+const cache = new Map<string, string>();
+
+/** Sanitized HTML for a guide string. */
+export function markdownToHtml(text: string, options: MarkdownOptions = {}): string {
+  const key = `${options.inline ? "i" : "b"}:${options.math ?? "katex"}`;
+  const cached = cache.get(`${key}:${text}`);
+  if (cached !== undefined) return cached;
+
+  let processor = processors.get(key);
+  if (!processor) {
+    processor = buildProcessor(options);
+    processors.set(key, processor);
+  }
+
+  const html = String(processor.processSync(text)).trim();
+  if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value as string);
+  cache.set(`${key}:${text}`, html);
+  return html;
+}
+
+// --------- DOCUMENT BLOCKS ----------
+
+/** A piece of inline text with its formatting, for PDF and Word exports. */
+export type TextRun = { text: string; bold?: boolean; italic?: boolean; code?: boolean };
+
+/**
+ * A paragraph-level piece of guide text. List items carry their marker
+ * ("•", "2.") and nesting depth; code blocks and display math are "code".
+ */
+export type TextBlock = {
+  kind: "paragraph" | "list-item" | "code";
+  runs: TextRun[];
+  marker?: string;
+  depth?: number;
+};
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath);
+
+function inlineRuns(
+  nodes: PhrasingContent[],
+  style: Omit<TextRun, "text"> = {}
+): TextRun[] {
+  return nodes.flatMap((node): TextRun[] => {
+    switch (node.type) {
+      case "text":
+        return [{ ...style, text: node.value }];
+      case "strong":
+        return inlineRuns(node.children, { ...style, bold: true });
+      case "emphasis":
+        return inlineRuns(node.children, { ...style, italic: true });
+      case "delete":
+      case "link":
+        return inlineRuns(node.children, style);
+      case "inlineCode":
+      case "inlineMath":
+        return [{ ...style, text: node.value, code: true }];
+      case "break":
+        return [{ ...style, text: "\n" }];
+      default:
+        // Raw HTML, images and footnotes are dropped as on the page
+        return [];
+    }
+  });
+}
+
+function collectBlocks(node: MdastNodes, blocks: TextBlock[], depth: number) {
+  switch (node.type) {
+    case "root":
+    case "blockquote":
+      node.children.forEach((child) => collectBlocks(child, blocks, depth));
+      return;
+    case "paragraph":
+    case "heading":
+      blocks.push({
+        kind: "paragraph",
+        runs: inlineRuns(node.children, node.type === "heading" ? { bold: true } : {}),
+      });
+      return;
+    case "code":
+    case "math":
+      blocks.push({ kind: "code", runs: [{ text: node.value, code: true }] });
+      return;
+    case "list":
+      node.children.forEach((item, i) => {
+        const [first, ...rest] = item.children;
+        blocks.push({
+          kind: "list-item",
+          runs: first?.type === "paragraph" ? inlineRuns(first.children) : [],
+          marker: node.ordered ? `${(node.start ?? 1) + i}.` : "•",
+          depth,
+        });
+        const nested = first?.type === "paragraph" ? rest : item.children;
+        nested.forEach((child) => collectBlocks(child, blocks, depth + 1));
+      });
+      return;
+    case "table":
+      for (const row of node.children) {
+        const runs = row.children.flatMap((cell, i) => [
+          ...(i > 0 ? [{ text: " | " }] : []),
+          ...inlineRuns(cell.children),
+        ]);
+        blocks.push({ kind: "paragraph", runs });
+      }
+      return;
+    default:
+      return;
+  }
+}
+
+/**
+ * Guide text as formatted blocks for document exports that can't use HTML.
+ * Math keeps its TeX source, set as code.
+ */
+export function markdownToBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  collectBlocks(parser.parse(text) as MdastRoot, blocks, 0);
+  return blocks;
+}
+
+/** Guide text without Markdown syntax, for table cells and one-line fields. */
+export function markdownToText(text: string): string {
+  return markdownToBlocks(text)
+    .map((block) => {
+      const line = block.runs.map((run) => run.text).join("");
+      return block.marker ? `${"  ".repeat(block.depth ?? 0)}${block.marker} ${line}` : line;
+    })
+    .join("\n");
+}
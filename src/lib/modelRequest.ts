@@ -0,0 +1,107 @@
+import type { ChatMessage, LLMProvider } from "./llm";
+import { ProviderResponseError } from "./llm";
+import { parseModelJson } from "./jsonRepair";
+import type { ValidationResult } from "./studyGuide";
+
+// Thrown when the model answers but the answer is unusable. The message is
+// safe to show to end users.
+export class GenerationError extends Error {
+  details?: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = "GenerationError";
+    this.details = details;
+  }
+}
+
+export type ModelRequestOptions = {
+  system: string;
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  /** An already received response (e.g. from a stream) to validate first. */
+  firstContent?: string;
+};
+
+// Total tries per request, including re-prompts with validation errors.
+const MAX_ATTEMPTS = 3;
+
+export function buildMessages(system: string, prompt: string): ChatMessage[] {
+  return [
+    { role: "system", content: system },
+    { role: "user", content: prompt },
+  ];
+}
+
+function buildRetryPrompt(errors: string[]) {
+  return `
+    Your previous response could not be used:
+${errors.map((e) => `    - ${e}`).join("\n")}
+
+    Return the complete corrected JSON object with the exact shape requested above.
+    Do NOT add explanations or wrap the JSON in code fences. Output JSON only.
+    `;
+}
+
+async function complete(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  { maxTokens, temperature, signal }: ModelRequestOptions
+): Promise<string> {
+  try {
+    return await provider.chat(messages, { maxTokens, temperature, signal });
+  } catch (err) {
+    if (err instanceof ProviderResponseError) {
+      throw new GenerationError(err.message, err.details);
+    }
+    throw err;
+  }
+}
+
+function parseAndValidate<T>(
+  content: string,
+  validate: (value: unknown) => ValidationResult<T>
+): ValidationResult<T> {
+  const parsed = parseModelJson(content);
+  if (!parsed.ok) {
+    return { ok: false, errors: [`Response is not valid JSON (${parsed.error})`] };
+  }
+  return validate(parsed.value);
+}
+
+/**
+ * Ask the model for JSON and validate it, re-prompting with the validation
+ * errors up to MAX_ATTEMPTS times before giving up with a GenerationError.
+ */
+export async function requestValidated<T>(
+  provider: LLMProvider,
+  prompt: string,
+  validate: (value: unknown) => ValidationResult<T>,
+  options: ModelRequestOptions
+): Promise<T> {
+  const messages = buildMessages(options.system, prompt);
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const content =
+      attempt === 1 && options.firstContent !== undefined
+        ? options.firstContent
+        : await complete(provider, messages, options);
+
+    const result = parseAndValidate(content, validate);
+    if (result.ok) return result.value;
+
+    errors = result.errors;
+    console.error(`Invalid AI response (attempt ${attempt}):`, errors, content);
+    messages.push(
+      { role: "assistant", content },
+      { role: "user", content: buildRetryPrompt(errors.slice(0, 20)) }
+    );
+  }
+
+  throw new GenerationError(
+    "Invalid response format from AI. Please try again.",
+    errors
+  );
+}
@@ -0,0 +1,70 @@
+// Client-side OCR for scanned PDF pages and photos of notes, called from the
+// extraction worker. Tesseract runs in its own (nested) worker; it and its
+// English model are downloaded on first use and reused for every later page.
+
+import type { PDFPageProxy } from "pdfjs-dist";
+import type { ImageLike, Worker as TesseractWorker } from "tesseract.js";
+
+// Pages with less extractable text than this are treated as scans.
+export const MIN_PAGE_TEXT_CHARS = 20;
+
+// Render scale for PDF pages; ~150 DPI, enough for Tesseract on slide text.
+const PDF_RENDER_SCALE = 2;
+
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+function getWorker(): Promise<TesseractWorker> {
+  if (!workerPromise) {
+    workerPromise = import("tesseract.js")
+      .then(({ createWorker }) => createWorker("eng"))
+      .catch((err) => {
+        workerPromise = null;
+        throw err;
+      });
+  }
+  return workerPromise;
+}
+
+export async function recognizeText(image: ImageLike): Promise<string> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return data.text.trim();
+}
+
+// pdf.js draws images and patterns on scratch canvases made by this
+// factory. Its default factory needs a DOM document, which the extraction
+// worker doesn't have.
+export class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  }
+
+  reset(entry: { canvas: OffscreenCanvas }, width: number, height: number) {
+    entry.canvas.width = width;
+    entry.canvas.height = height;
+  }
+
+  destroy(entry: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (entry.canvas) {
+      entry.canvas.width = 0;
+      entry.canvas.height = 0;
+    }
+    entry.canvas = null;
+    entry.context = null;
+  }
+}
+
+/** Rasterize a pdf.js page so it can be OCR'd. */
+export async function renderPdfPage(page: PDFPageProxy): Promise<OffscreenCanvas> {
+  const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available for OCR");
+
+  // pdf.js only uses the drawing API, which the offscreen context shares
+  const canvasContext = context as unknown as CanvasRenderingContext2D;
+  await page.render({ canvasContext, viewport }).promise;
+  return canvas;
+}
@@ -0,0 +1,273 @@
+// Rebuilds readable text from pdf.js text items. pdf.js hands back loose
+// runs of text with positions; this groups them into lines, columns and
+// paragraphs, marks headings and bullets, drops running headers/footers and
+// prefixes every page with a "[Page N]" marker the model can cite.
+
+/** The fields of a pdf.js TextItem this module uses. */
+export type PdfTextItem = {
+  str: string;
+  /** [scaleX, skewY, skewX, scaleY, x, y] in PDF units (y grows upwards). */
+  transform: number[];
+  width: number;
+};
+
+type Line = { text: string; x: number; y: number; size: number };
+
+const PAGE_MARKER_PATTERN = /^\[Page (\d+)\]$/gm;
+
+// Bullet glyphs commonly produced by slide decks and word processors.
+const BULLET_PATTERN = /^(?:[•●▪■◦○‣∙►▶➢✓]\s*|[-–*]\s+)/;
+const NUMBERED_PATTERN = /^(\d{1,2}|[a-zA-Z])[.)]\s+/;
+
+// Relative to the body font size.
+const HEADING_SCALE = 1.2;
+const TITLE_SCALE = 1.6;
+const MAX_HEADING_LENGTH = 100;
+
+// A repeated first/last line on at least this share of pages is a running
+// header or footer.
+const REPEATED_LINE_SHARE = 0.5;
+const MIN_PAGES_FOR_REPEATS = 3;
+
+export function pageMarker(page: number): string {
+  return `[Page ${page}]`;
+}
+
+/** The page number of the last page marker in `text`, if any. */
+export function lastPageNumber(text: string): number | null {
+  let page: number | null = null;
+  for (const match of text.matchAll(PAGE_MARKER_PATTERN)) {
+    page = Number(match[1]);
+  }
+  return page;
+}
+
+export function hasPageMarkers(text: string): boolean {
+  return lastPageNumber(text) !== null;
+}
+
+function fontSize(item: PdfTextItem): number {
+  const [a, b, c, d] = item.transform;
+  return Math.max(Math.hypot(a, b), Math.hypot(c, d)) || 1;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// Items whose baselines are within half a font size share a line; within a
+// line, a horizontal gap becomes a space.
+function groupLines(items: PdfTextItem[]): Line[] {
+  const sorted = items
+    .filter((item) => item.str.trim())
+    .map((item) => ({
+      item,
+      x: item.transform[4],
+      y: item.transform[5],
+      size: fontSize(item),
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: (typeof sorted)[] = [];
+  for (const entry of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - entry.y) <= row[0].size * 0.5) {
+      row.push(entry);
+    } else {
+      rows.push([entry]);
+    }
+  }
+
+  return rows.map((row) => {
+    row.sort((a, b) => a.x - b.x);
+    let text = "";
+    let end = -Infinity;
+    for (const { item, x, size } of row) {
+      if (text && x - end > size * 0.15 && !text.endsWith(" ")) text += " ";
+      text += item.str;
+      end = x + item.width;
+    }
+    return {
+      text: text.replace(/\s+/g, " ").trim(),
+      x: row[0].x,
+      y: row[0].y,
+      size: Math.max(...row.map((r) => r.size)),
+    };
+  });
+}
+
+/**
+ * Find the x position of a gutter between two columns: a horizontal gap
+ * wider than a few characters that many lines share. Returns null for
+ * single-column pages.
+ */
+function findGutter(items: PdfTextItem[]): number | null {
+  const gaps: number[] = [];
+  const rows = new Map<number, { x: number; end: number; size: number }[]>();
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const key = Math.round(item.transform[5]);
+    const row = rows.get(key) ?? [];
+    row.push({ x: item.transform[4], end: item.transform[4] + item.width, size: fontSize(item) });
+    rows.set(key, row);
+  }
+
+  for (const row of rows.values()) {
+    row.sort((a, b) => a.x - b.x);
+    for (let i = 1; i < row.length; i++) {
+      if (row[i].x - row[i - 1].end > row[i].size * 3) {
+        gaps.push((row[i].x + row[i - 1].end) / 2);
+      }
+    }
+  }
+
+  if (rows.size < 6 || gaps.length < Math.max(3, rows.size * 0.3)) return null;
+
+  const gutter = median(gaps);
+  const aligned = gaps.filter((g) => Math.abs(g - gutter) < 40).length;
+  return aligned >= gaps.length * 0.6 ? gutter : null;
+}
+
+function formatLines(lines: Line[], bodySize: number): string[] {
+  const out: string[] = [];
+  const gaps = lines.slice(1).map((line, i) => lines[i].y - line.y);
+  // Slides use loose line spacing, so cap the typical gap at 1.5 lines
+  const lineGap = Math.min(median(gaps.filter((g) => g > 0)) || Infinity, bodySize * 1.5);
+  const paragraphBreak = () => {
+    if (out.length > 0 && out[out.length - 1] !== "") out.push("");
+  };
+
+  // Left edge of the line that started the current paragraph or bullet
+  let blockX = 0;
+
+  lines.forEach((line, i) => {
+    const gap = i > 0 ? lines[i - 1].y - line.y : Infinity;
+    const continues = gap <= lineGap * 1.3;
+    const previous = out[out.length - 1] ?? "";
+    const isHeading =
+      line.size >= bodySize * HEADING_SCALE && line.text.length <= MAX_HEADING_LENGTH;
+
+    if (isHeading) {
+      const prefix = line.size >= bodySize * TITLE_SCALE ? "# " : "## ";
+      // Multi-line headings come through as consecutive heading lines
+      if (previous.startsWith(prefix) && gap <= line.size * 1.6) {
+        out[out.length - 1] = `${previous} ${line.text}`;
+      } else {
+        paragraphBreak();
+        out.push(prefix + line.text);
+      }
+      blockX = line.x;
+      return;
+    }
+
+    // Paragraph break after headings and bigger than usual vertical gaps
+    if (previous.startsWith("#") || !continues) paragraphBreak();
+
+    const last = out[out.length - 1] ?? "";
+    const isListItem = last.startsWith("- ") || NUMBERED_PATTERN.test(last);
+
+    if (BULLET_PATTERN.test(line.text)) {
+      out.push(`- ${line.text.replace(BULLET_PATTERN, "")}`);
+      blockX = line.x;
+    } else if (NUMBERED_PATTERN.test(line.text)) {
+      out.push(line.text);
+      blockX = line.x;
+    } else if (last !== "" && (!isListItem || line.x > blockX + line.size * 0.5)) {
+      // Wrapped lines of a paragraph or (indented) bullet are joined back
+      out[out.length - 1] = last.endsWith("-")
+        ? last.slice(0, -1) + line.text
+        : `${last} ${line.text}`;
+    } else {
+      out.push(line.text);
+      blockX = line.x;
+    }
+  });
+
+  return out;
+}
+
+/** The most common font size, weighted by the amount of text set in it. */
+export function bodyFontSize(items: PdfTextItem[]): number {
+  const weights = new Map<number, number>();
+  for (const item of items) {
+    const size = Math.round(fontSize(item) * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + item.str.trim().length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best || 12;
+}
+
+/**
+ * Lay out one page as lines of text: "# "/"## " headings, "- " bullets and
+ * "" for paragraph breaks. Two-column pages are read left column first.
+ */
+export function layoutPage(items: PdfTextItem[], bodySize = bodyFontSize(items)): string[] {
+  const gutter = findGutter(items);
+  const columns =
+    gutter === null
+      ? [items]
+      : [
+          items.filter((item) => item.transform[4] < gutter),
+          items.filter((item) => item.transform[4] >= gutter),
+        ];
+
+  const out: string[] = [];
+  for (const column of columns) {
+    if (out.length > 0 && out[out.length - 1] !== "") out.push("");
+    out.push(...formatLines(groupLines(column), bodySize));
+  }
+  return out;
+}
+
+// Page numbers and dates vary per page; compare lines with digits masked.
+function normalizeRepeat(line: string): string {
+  return line.toLowerCase().replace(/\d+/g, "#").trim();
+}
+
+function edgeLines(lines: string[]): string[] {
+  const content = lines.filter((l) => l.trim());
+  return [...content.slice(0, 1), ...content.slice(-1)];
+}
+
+/**
+ * Join laid-out pages into one text with "[Page N]" markers, dropping lines
+ * that repeat at the top or bottom of most pages (running headers, footers,
+ * page numbers).
+ */
+export function assemblePages(pages: string[][]): string {
+  const repeated = new Set<string>();
+
+  if (pages.length >= MIN_PAGES_FOR_REPEATS) {
+    const counts = new Map<string, number>();
+    for (const lines of pages) {
+      for (const key of new Set(edgeLines(lines).map(normalizeRepeat))) {
+        if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+    for (const [key, count] of counts) {
+      if (count >= pages.length * REPEATED_LINE_SHARE) repeated.add(key);
+    }
+  }
+
+  return pages
+    .map((lines, i) => {
+      const edges = new Set(edgeLines(lines));
+      const kept = lines.filter(
+        (line) =>
+          !(edges.has(line) && repeated.has(normalizeRepeat(line))) &&
+          // Bare page numbers ("3", "- 3 -", "Page 3 of 10")
+          !(edges.has(line) && /^[-–\s]*(page\s*)?\d+(\s*(of|\/)\s*\d+)?[-–\s]*$/i.test(line))
+      );
+      const body = kept.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+      return `${pageMarker(i + 1)}\n${body}`;
+    })
+    .join("\n\n");
+}
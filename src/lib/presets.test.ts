@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { generateStudyGuide } from "./generation";
+import { DEFAULT_GENERATION_OPTIONS } from "./generationOptions";
+import { createMockProvider } from "./llm/mock";
+import type { PresetId } from "./presets";
+import { PRESETS, extraShape, presetRules, validatePresetGuide } from "./presets";
+
+const BASE_GUIDE = {
+  summary: "Forces change motion.",
+  detailed_summary: "Newton's laws relate force, mass and acceleration.",
+  concepts: [{ term: "Force", def: "A push or pull on an object" }],
+  questions: [
+    {
+      type: "true_false",
+      prompt: "Force is a push or pull.",
+      answer: true,
+      explanation: "That is the definition of force.",
+      difficulty: "easy",
+    },
+  ],
+};
+
+const MATERIAL = [
+  "Force: a push or pull that changes how an object moves.",
+  "Mass: the amount of matter in an object, measured in kilograms.",
+  "Acceleration: the rate at which velocity changes over time.",
+  "Momentum is the product of an object's mass and its velocity.",
+].join("\n");
+
+describe("validatePresetGuide", () => {
+  it("passes guides through unchanged for presets without extra sections", () => {
+    const result = validatePresetGuide(PRESETS.general, BASE_GUIDE);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value.extras).toBeUndefined();
+  });
+
+  it("puts trimmed extra sections into extras", () => {
+    const result = validatePresetGuide(PRESETS.history, {
+      ...BASE_GUIDE,
+      timeline: [{ date: " 1687 ", event: "Principia published", significance: "Laws of motion" }],
+    });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.extras).toEqual({
+        timeline: [{ date: "1687", event: "Principia published", significance: "Laws of motion" }],
+      });
+    }
+  });
+
+  it("requires every extra section of the preset", () => {
+    const result = validatePresetGuide(PRESETS.stem, {
+      ...BASE_GUIDE,
+      formulas: [{ name: "Newton's second law", expression: "$F = ma$", variables: "F force" }],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors).toContain('"worked_examples" must be an array of objects');
+  });
+
+  it("reports missing and empty fields of extra items", () => {
+    const result = validatePresetGuide(PRESETS.language, {
+      ...BASE_GUIDE,
+      vocabulary: [{ word: "la fuerza", translation: "  " }],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toEqual([
+        "vocabulary[0].translation must be a non-empty string",
+        "vocabulary[0].example must be a non-empty string",
+      ]);
+    }
+  });
+
+  it("keeps the base guide errors next to the extra section errors", () => {
+    const result = validatePresetGuide(PRESETS.law, { ...BASE_GUIDE, summary: "" });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toContain('"summary" must not be empty');
+      expect(result.errors).toContain('"case_briefs" must be an array of objects');
+    }
+  });
+});
+
+describe("extraShape", () => {
+  it("is empty for presets without extra sections", () => {
+    expect(extraShape(PRESETS.general)).toBe("");
+  });
+
+  it("lists every field of every extra section as a JSON string", () => {
+    const shape = extraShape(PRESETS.stem);
+    expect(shape).toContain('"formulas": [\n        { "name": "string", "expression": "string", "variables": "string" }');
+    expect(shape).toContain('"worked_examples": [\n        { "problem": "string", "solution": "string" }');
+  });
+});
+
+describe("presetRules", () => {
+  it("describes the extra sections and adds the subject instructions", () => {
+    const rules = presetRules(PRESETS.history);
+    expect(rules).toContain('- "timeline" = the key dated events in chronological order');
+    expect(rules).toContain('"date" = the date, year or period');
+    for (const rule of PRESETS.history.instructions) expect(rules).toContain(`- ${rule}`);
+  });
+
+  it("is empty for the general preset", () => {
+    expect(presetRules(PRESETS.general)).toBe("");
+  });
+});
+
+describe("generateStudyGuide with the mock provider", () => {
+  const provider = createMockProvider({ model: "mock" });
+  const run = (preset: PresetId) =>
+    generateStudyGuide(provider, MATERIAL, { ...DEFAULT_GENERATION_OPTIONS, preset });
+
+  it("leaves extras out for the general preset", async () => {
+    const guide = await run("general");
+    expect(guide.concepts.length).toBeGreaterThan(0);
+    expect(guide.extras).toBeUndefined();
+  });
+
+  it.each<PresetId>(["stem", "history", "language", "law"])(
+    "fills every extra section of the %s preset",
+    async (id) => {
+      const guide = await run(id);
+      for (const section of PRESETS[id].extraSections) {
+        const items = guide.extras?.[section.key] ?? [];
+        expect(items.length).toBeGreaterThan(0);
+        for (const item of items) {
+          expect(Object.keys(item)).toEqual(Object.keys(section.fields));
+        }
+      }
+    }
+  );
+});
@@ -0,0 +1,251 @@
+// Named study-guide presets. A preset tailors the prompt to a subject and may
+// ask the model for extra sections (a timeline, vocabulary, ...) next to the
+// standard summary, concepts and questions. The extra sections are stored in
+// `StudyGuide.extras` under their key.
+
+import type {
+  ExtraItem,
+  GuideExtras,
+  StudyGuide,
+  ValidationResult,
+} from "./studyGuide";
+import { validateStudyGuide } from "./studyGuide";
+
+export type PresetId = "general" | "stem" | "history" | "language" | "law";
+
+export type ExtraSection = {
+  /** JSON key in the model response and in `StudyGuide.extras`. */
+  key: string;
+  heading: string;
+  icon: string;
+  /** What the section should contain, for the prompt. */
+  description: string;
+  /** Item fields in display order: field name → what goes in it. */
+  fields: Record<string, string>;
+};
+
+export type GuidePreset = {
+  id: PresetId;
+  label: string;
+  /** One line for the settings panel. */
+  summary: string;
+  system: string;
+  /** Subject-specific rules added to the guide prompt. */
+  instructions: string[];
+  extraSections: ExtraSection[];
+};
+
+export const DEFAULT_PRESET_ID: PresetId = "general";
+
+export const PRESETS: Record<PresetId, GuidePreset> = {
+  general: {
+    id: "general",
+    label: "General",
+    summary: "Summary, key concepts and practice questions for any subject",
+    system: "You generate concise, exam-focused study guides. Only output JSON when asked.",
+    instructions: [],
+    extraSections: [],
+  },
+  stem: {
+    id: "stem",
+    label: "STEM",
+    summary: "Adds a formula sheet and step-by-step worked examples",
+    system:
+      "You generate exam-focused study guides for science, technology, engineering and math courses. Only output JSON when asked.",
+    instructions: [
+      "Write formulas as LaTeX math (e.g. $F = ma$, $E = mc^2$) and name the units of every quantity",
+      "Prefer questions that require applying a formula or method over recalling wording",
+    ],
+    extraSections: [
+      {
+        key: "formulas",
+        heading: "Formula sheet",
+        icon: "∑",
+        description: "every formula, law or identity the material uses",
+        fields: {
+          name: "what the formula is called or computes",
+          expression: "the formula as LaTeX math between $...$",
+          variables: "what each symbol means, with units",
+        },
+      },
+      {
+        key: "worked_examples",
+        heading: "Worked examples",
+        icon: "✏️",
+        description: "2–4 exam-style problems solved step by step",
+        fields: {
+          problem: "the problem statement with concrete numbers",
+          solution: "numbered steps ending with the final answer",
+        },
+      },
+    ],
+  },
+  history: {
+    id: "history",
+    label: "History",
+    summary: "Adds a timeline of dated events and their significance",
+    system:
+      "You generate exam-focused study guides for history and social studies courses. Only output JSON when asked.",
+    instructions: [
+      "Anchor concepts in time and place; mention the people involved and causes and consequences",
+      "Include questions about chronology and about why events happened",
+    ],
+    extraSections: [
+      {
+        key: "timeline",
+        heading: "Timeline",
+        icon: "🕰️",
+        description: "the key dated events in chronological order",
+        fields: {
+          date: "the date, year or period",
+          event: "what happened",
+          significance: "why it matters",
+        },
+      },
+    ],
+  },
+  language: {
+    id: "language",
+    label: "Language learning",
+    summary: "Adds a vocabulary list with translations and example sentences",
+    system:
+      "You generate study guides for foreign language learners. Only output JSON when asked.",
+    instructions: [
+      "Treat grammar rules and expressions as concepts; give the rule and a short example in the \"def\"",
+      "Include translation and fill-in-the-blank style questions",
+    ],
+    extraSections: [
+      {
+        key: "vocabulary",
+        heading: "Vocabulary",
+        icon: "🔤",
+        description: "the important words and phrases of the material",
+        fields: {
+          word: "the word or phrase in the language being learned",
+          translation: "its meaning in the output language",
+          example: "a short example sentence using it",
+        },
+      },
+    ],
+  },
+  law: {
+    id: "law",
+    label: "Law",
+    summary: "Adds case briefs: facts, issue, holding and reasoning",
+    system:
+      "You generate exam-focused study guides for law students. Only output JSON when asked.",
+    instructions: [
+      "State legal rules precisely, with their elements and exceptions",
+      "Prefer questions that apply a rule to a short fact pattern",
+    ],
+    extraSections: [
+      {
+        key: "case_briefs",
+        heading: "Case briefs",
+        icon: "⚖️",
+        description: "a brief of every case the material discusses",
+        fields: {
+          case: "the case name and citation or year if given",
+          facts: "the relevant facts in one or two sentences",
+          issue: "the legal question",
+          holding: "what the court decided",
+          reasoning: "why",
+        },
+      },
+    ],
+  },
+};
+
+export const PRESET_IDS = Object.keys(PRESETS) as PresetId[];
+
+export function isPresetId(value: unknown): value is PresetId {
+  return typeof value === "string" && (PRESET_IDS as string[]).includes(value);
+}
+
+/** Heading and icon for a stored extra section, whichever preset made it. */
+export function describeExtraSection(key: string): Pick<ExtraSection, "heading" | "icon"> {
+  for (const preset of Object.values(PRESETS)) {
+    const section = preset.extraSections.find((s) => s.key === key);
+    if (section) return section;
+  }
+  const heading = key.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+  return { heading, icon: "📎" };
+}
+
+/** JSON shape lines for the preset's extra sections, for the prompt. */
+export function extraShape(preset: GuidePreset): string {
+  return preset.extraSections
+    .map((section) => {
+      const fields = Object.keys(section.fields)
+        .map((field) => `"${field}": "string"`)
+        .join(", ");
+      return `,\n    "${section.key}": [\n        { ${fields} }\n    ]`;
+    })
+    .join("");
+}
+
+/** Prompt rules describing the preset's extra sections and subject. */
+export function presetRules(preset: GuidePreset): string {
+  const sections = preset.extraSections.map((section) => {
+    const fields = Object.entries(section.fields)
+      .map(([field, meaning]) => `"${field}" = ${meaning}`)
+      .join("; ");
+    return `- "${section.key}" = ${section.description} (${fields})`;
+  });
+  return [...sections, ...preset.instructions.map((rule) => `- ${rule}`)]
+    .map((line) => `    ${line}`)
+    .join("\n");
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function validateExtraSection(
+  section: ExtraSection,
+  value: unknown,
+  errors: string[]
+): ExtraItem[] {
+  if (!Array.isArray(value)) {
+    errors.push(`"${section.key}" must be an array of objects`);
+    return [];
+  }
+
+  return value.flatMap((item, i) => {
+    const record = (item ?? {}) as Record<string, unknown>;
+    const before = errors.length;
+    const entry: ExtraItem = {};
+
+    for (const field of Object.keys(section.fields)) {
+      if (isNonEmptyString(record[field])) {
+        entry[field] = record[field].trim();
+      } else {
+        errors.push(`${section.key}[${i}].${field} must be a non-empty string`);
+      }
+    }
+    return errors.length > before ? [] : [entry];
+  });
+}
+
+/**
+ * `validateStudyGuide` for a model response made with `preset`: the preset's
+ * extra sections are required top-level arrays and end up in `extras`.
+ */
+export function validatePresetGuide(
+  preset: GuidePreset,
+  value: unknown
+): ValidationResult<StudyGuide> {
+  const base = validateStudyGuide(value);
+  if (preset.extraSections.length === 0) return base;
+
+  const record = (value ?? {}) as Record<string, unknown>;
+  const errors = base.ok ? [] : [...base.errors];
+  const extras: GuideExtras = {};
+  for (const section of preset.extraSections) {
+    extras[section.key] = validateExtraSection(section, record[section.key], errors);
+  }
+
+  return base.ok && errors.length === 0
+    ? { ok: true, value: { ...base.value, extras } }
+    : { ok: false, errors };
+}
@@ -0,0 +1,260 @@
+// Targeted follow-up requests on an existing guide: rewrite one overview
+// section, add more practice questions, or expand one concept. Each prompt
+// carries the current guide so the model builds on it instead of repeating it.
+
+import { SINGLE_PASS_LIMIT } from "./chunking";
+import { verifyCitations } from "./citations";
+import {
+  MARKDOWN_NOTE,
+  QUOTE_RULE,
+  depthGuidance,
+  mergeQuestions,
+  requestOptions,
+  sourceNote,
+  styleNote,
+  tagSources,
+} from "./generation";
+import type { GenerationOptions } from "./generationOptions";
+import type { LLMProvider } from "./llm";
+import { requestValidated } from "./modelRequest";
+import type {
+  Concept,
+  PracticeQuestion,
+  StudyGuide,
+  ValidationResult,
+} from "./studyGuide";
+import { findConceptIndex, validateSection } from "./studyGuide";
+
+export type OverviewSection = "summary" | "detailed_summary";
+
+// Characters of material around each mention of an expanded concept.
+const FOCUS_WINDOW = 1500;
+
+/**
+ * The material, cut down to what fits in one request. With a `focus` term,
+ * the passages mentioning it are kept; otherwise the beginning.
+ */
+function clipMaterial(text: string, focus?: string): string {
+  if (text.length <= SINGLE_PASS_LIMIT) return text;
+
+  if (focus) {
+    const lower = text.toLowerCase();
+    const needle = focus.toLowerCase();
+    const passages: string[] = [];
+    let length = 0;
+
+    for (
+      let at = lower.indexOf(needle);
+      at !== -1 && length < SINGLE_PASS_LIMIT;
+      at = lower.indexOf(needle, at + FOCUS_WINDOW)
+    ) {
+      const passage = text.slice(Math.max(0, at - FOCUS_WINDOW / 2), at + FOCUS_WINDOW / 2);
+      passages.push(passage);
+      length += passage.length;
+    }
+    if (passages.length > 0) return passages.join("\n[...]\n");
+  }
+
+  return text.slice(0, SINGLE_PASS_LIMIT);
+}
+
+function listConcepts(guide: StudyGuide): string {
+  return guide.concepts.map((c) => c.term).join("; ") || "(none)";
+}
+
+// --------- OVERVIEW ----------
+
+function buildOverviewPrompt(
+  text: string,
+  guide: StudyGuide,
+  section: OverviewSection,
+  options: GenerationOptions
+) {
+  const depth = depthGuidance(options.depth);
+  const rule =
+    section === "summary"
+      ? `very short high-level overview (${depth.summary})`
+      : `deeper explanation (${depth.detailed})`;
+
+  return `
+    Rewrite one section of an existing study guide. The current version was not
+    good enough: write a clearly better one from the study material, not a
+    rewording of it.
+
+    Return ONLY valid JSON with this exact shape:
+    {
+    "${section}": "string"
+    }
+
+    - "${section}" = ${rule}
+${MARKDOWN_NOTE}
+${styleNote(options)}
+    Key concepts of the guide: ${listConcepts(guide)}
+    Current version: ${guide[section]}
+
+    Study material:
+    """${clipMaterial(text)}"""
+    `;
+}
+
+export async function regenerateOverview(
+  provider: LLMProvider,
+  text: string,
+  guide: StudyGuide,
+  section: OverviewSection,
+  options: GenerationOptions,
+  signal?: AbortSignal
+): Promise<string> {
+  const validate = (value: unknown): ValidationResult<string> =>
+    validateSection(section, ((value ?? {}) as Record<string, unknown>)[section]);
+
+  return requestValidated(
+    provider,
+    buildOverviewPrompt(text, guide, section, options),
+    validate,
+    requestOptions(options, signal)
+  );
+}
+
+// --------- MORE QUESTIONS ----------
+
+function buildMoreQuestionsPrompt(
+  text: string,
+  guide: StudyGuide,
+  count: number,
+  options: GenerationOptions
+) {
+  const existing = guide.questions.map((q, i) => `    ${i + 1}. ${q.prompt}`).join("\n");
+
+  return `
+    Write ${count} NEW practice questions for an existing study guide.
+
+    Return ONLY valid JSON with this exact shape:
+    {
+    "questions": [
+        { "type": "multiple_choice", "prompt": "string", "options": ["string"], "answer_index": 0, "explanation": "string", "difficulty": "easy" | "medium" | "hard", "concept": "string", "quote": "string" },
+        { "type": "true_false", "prompt": "string", "answer": true, "explanation": "string", "difficulty": "easy" | "medium" | "hard", "concept": "string", "quote": "string" },
+        { "type": "short_answer", "prompt": "string", "model_answer": "string", "explanation": "string", "difficulty": "easy" | "medium" | "hard", "concept": "string", "quote": "string" }
+    ]
+    }
+
+    - "questions" = exactly ${count} questions mixing the three question types; multiple choice has 3–5 options and "answer_index" is the 0-based index of the correct one
+    - Do not repeat or reword any existing question listed below; test other facts, or the same facts from a different angle
+    - "explanation" = one or two sentences on why the answer is correct
+    - "concept" = the exact term, from the key concepts below, that the question tests
+${QUOTE_RULE}
+${MARKDOWN_NOTE}
+${styleNote(options)}${sourceNote(text, "every question")}
+    Key concepts of the guide: ${listConcepts(guide)}
+    Existing questions:
+${existing || "    (none)"}
+
+    Study material:
+    """${clipMaterial(text)}"""
+    `;
+}
+
+/** Up to `count` questions that are not already in the guide. */
+export async function generateMoreQuestions(
+  provider: LLMProvider,
+  text: string,
+  guide: StudyGuide,
+  count: number,
+  options: GenerationOptions,
+  signal?: AbortSignal
+): Promise<PracticeQuestion[]> {
+  const validate = (value: unknown) =>
+    validateSection("questions", ((value ?? {}) as Record<string, unknown>).questions);
+
+  const fresh = await requestValidated(
+    provider,
+    buildMoreQuestionsPrompt(text, guide, count, options),
+    validate,
+    requestOptions(options, signal)
+  );
+
+  const tagged = verifyCitations(tagSources({ ...guide, questions: fresh }, text), text)
+    .questions;
+  return mergeQuestions([guide.questions, tagged])
+    .slice(guide.questions.length)
+    .slice(0, count);
+}
+
+// --------- EXPAND CONCEPT ----------
+
+function buildExpandPrompt(
+  text: string,
+  guide: StudyGuide,
+  concept: Concept,
+  options: GenerationOptions
+) {
+  return `
+    Explain one concept of a study guide in more depth than its definition.
+
+    Return ONLY valid JSON with this exact shape:
+    {
+    "explanation": "string",
+    "examples": ["string"]
+    }
+
+    - "explanation" = 2–4 short paragraphs: how it works, why it matters, and how it connects to the other key concepts
+    - "examples" = 2–3 concrete examples or applications, one or two sentences each, not copied from the definition
+${MARKDOWN_NOTE}
+${styleNote(options)}
+    Concept to expand: ${concept.term}
+    Current definition: ${concept.def}
+    Other key concepts: ${listConcepts(guide)}
+
+    Study material:
+    """${clipMaterial(text, concept.term)}"""
+    `;
+}
+
+export function validateExpansion(
+  value: unknown
+): ValidationResult<{ explanation: string; examples: string[] }> {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof record.explanation !== "string" || !record.explanation.trim()) {
+    errors.push('"explanation" must be a non-empty string');
+  }
+  if (
+    !Array.isArray(record.examples) ||
+    record.examples.length === 0 ||
+    !record.examples.every((e) => typeof e === "string" && e.trim())
+  ) {
+    errors.push('"examples" must be a non-empty array of strings');
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: {
+          explanation: (record.explanation as string).trim(),
+          examples: (record.examples as string[]).map((e) => e.trim()),
+        },
+      };
+}
+
+/** The concept named `term`, with an explanation and examples added. */
+export async function expandConcept(
+  provider: LLMProvider,
+  text: string,
+  guide: StudyGuide,
+  term: string,
+  options: GenerationOptions,
+  signal?: AbortSignal
+): Promise<Concept | null> {
+  const concept = guide.concepts[findConceptIndex(guide.concepts, term)];
+  if (!concept) return null;
+
+  const expansion = await requestValidated(
+    provider,
+    buildExpandPrompt(text, guide, concept, options),
+    validateExpansion,
+    requestOptions(options, signal)
+  );
+  return { ...concept, ...expansion };
+}
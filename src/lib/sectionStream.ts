@@ -0,0 +1,117 @@
+// Incremental parser that picks completed top-level fields out of a JSON
+// object while the model is still streaming it, e.g. `"summary": "..."` is
+// reported as soon as its closing quote arrives.
+
+export type StreamedSection = { key: string; value: unknown };
+
+type Expecting = "key" | "colon" | "value" | "string" | "nested" | "primitive" | "comma";
+
+export class SectionStreamParser {
+  private buffer = "";
+  private index = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringIsKey = false;
+  private expecting: Expecting = "key";
+  private keyStart = 0;
+  private valueStart = 0;
+  private currentKey = "";
+  private done = false;
+
+  /** Full text received so far. */
+  get text(): string {
+    return this.buffer;
+  }
+
+  /** Feed the next piece of model output; returns fields completed by it. */
+  push(chunk: string): StreamedSection[] {
+    this.buffer += chunk;
+    const completed: StreamedSection[] = [];
+
+    for (; this.index < this.buffer.length && !this.done; this.index++) {
+      const c = this.buffer[this.index];
+      const i = this.index;
+
+      // Ignore any chatter before the root object opens
+      if (this.depth === 0) {
+        if (c === "{") {
+          this.depth = 1;
+          this.expecting = "key";
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === "\\") {
+          this.escaped = true;
+        } else if (c === '"') {
+          this.inString = false;
+          if (this.depth === 1 && this.stringIsKey) {
+            try {
+              this.currentKey = String(this.parse(this.keyStart, i + 1));
+            } catch {
+              this.currentKey = "";
+            }
+            this.expecting = "colon";
+          } else if (this.depth === 1 && this.expecting === "string") {
+            this.emit(completed, i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (c === '"') {
+        this.inString = true;
+        this.stringIsKey = this.depth === 1 && this.expecting === "key";
+        if (this.stringIsKey) {
+          this.keyStart = i;
+        } else if (this.depth === 1 && this.expecting === "value") {
+          this.valueStart = i;
+          this.expecting = "string";
+        }
+      } else if (c === "{" || c === "[") {
+        if (this.depth === 1 && this.expecting === "value") {
+          this.valueStart = i;
+          this.expecting = "nested";
+        }
+        this.depth++;
+      } else if (c === "}" || c === "]") {
+        this.depth--;
+        if (this.depth === 1 && this.expecting === "nested") {
+          this.emit(completed, i + 1);
+        } else if (this.depth === 0) {
+          if (this.expecting === "primitive") this.emit(completed, i);
+          this.done = true;
+        }
+      } else if (this.depth === 1) {
+        if (c === ":" && this.expecting === "colon") {
+          this.expecting = "value";
+        } else if (c === ",") {
+          if (this.expecting === "primitive") this.emit(completed, i);
+          this.expecting = "key";
+        } else if (this.expecting === "value" && !/\s/.test(c)) {
+          this.valueStart = i;
+          this.expecting = "primitive";
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  private parse(start: number, end: number): unknown {
+    return JSON.parse(this.buffer.slice(start, end).trim());
+  }
+
+  private emit(completed: StreamedSection[], end: number) {
+    this.expecting = "comma";
+    try {
+      completed.push({ key: this.currentKey, value: this.parse(this.valueStart, end) });
+    } catch {
+      // Malformed fragment; the final full parse gets another chance at it
+    }
+  }
+}
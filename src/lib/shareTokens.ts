@@ -0,0 +1,39 @@
+// Delete tokens for guides this browser has shared. The server only keeps a
+// hash, so losing these means the link can only expire on its own.
+
+const STORAGE_KEY = "examace.shareTokens.v1";
+
+type ShareTokens = Record<string, string>;
+
+function loadTokens(): ShareTokens {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (err) {
+    console.error("Failed to load share tokens:", err);
+    return {};
+  }
+}
+
+function saveTokens(tokens: ShareTokens) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  } catch (err) {
+    console.error("Failed to save share tokens:", err);
+  }
+}
+
+export function getShareToken(id: string): string | null {
+  return loadTokens()[id] ?? null;
+}
+
+export function rememberShareToken(id: string, token: string) {
+  saveTokens({ ...loadTokens(), [id]: token });
+}
+
+export function forgetShareToken(id: string) {
+  const { [id]: _removed, ...rest } = loadTokens();
+  saveTokens(rest);
+}
@@ -0,0 +1,200 @@
+// Shared study guides, stored server-side in a local SQLite file so a guide
+// can be opened by anyone with its link. Server-only: never import this from
+// a client component.
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { MAX_ITEM_COUNT } from "./generationOptions";
+import type { StudyGuide } from "./studyGuide";
+
+export type SharedGuide = {
+  id: string;
+  title: string;
+  guide: StudyGuide;
+  createdAt: string;
+  expiresAt: string | null;
+};
+
+export type CreatedSharedGuide = {
+  id: string;
+  /** Shown to the creator once; only its hash is stored. */
+  deleteToken: string;
+  expiresAt: string | null;
+};
+
+export type DeleteSharedGuideResult = "deleted" | "not_found" | "forbidden";
+
+type SharedGuideRow = {
+  id: string;
+  title: string;
+  guide: string;
+  created_at: string;
+  expires_at: string | null;
+  delete_token_hash: string;
+};
+
+export const SHARE_EXPIRY_DAYS = [1, 7, 30] as const;
+export type ShareExpiryDays = (typeof SHARE_EXPIRY_DAYS)[number];
+
+/** Links created without a chosen expiry are removed after this many days. */
+export const DEFAULT_SHARE_EXPIRY_DAYS: ShareExpiryDays = 30;
+
+export const MAX_SHARED_TITLE_LENGTH = 80;
+
+/** Largest request body accepted when sharing a guide. */
+export const MAX_SHARE_BODY_BYTES = 512 * 1024;
+
+// Generation caps concepts and questions at MAX_ITEM_COUNT; the rest is
+// headroom for "more questions" and items the user added by hand.
+const MAX_SHARED_ITEMS = MAX_ITEM_COUNT * 4;
+
+const ID_LENGTH = 8;
+const ID_ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (db) return db;
+
+  const file =
+    process.env.EXAMACE_DB_PATH ||
+    path.join(process.cwd(), "data", "examace.db");
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS shared_guides (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      guide TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT,
+      delete_token_hash TEXT NOT NULL
+    )
+  `);
+  return db;
+}
+
+// Short, URL-friendly IDs; rejection sampling keeps the alphabet unbiased
+function generateId(): string {
+  let id = "";
+  while (id.length < ID_LENGTH) {
+    for (const byte of randomBytes(ID_LENGTH)) {
+      if (byte < 248 && id.length < ID_LENGTH) {
+        id += ID_ALPHABET[byte % ID_ALPHABET.length];
+      }
+    }
+  }
+  return id;
+}
+
+/** Why `guide` is too big to share, or null if it is within the limits. */
+export function sharedGuideLimitError(guide: StudyGuide): string | null {
+  const lists: [string, unknown[]][] = [
+    ["concepts", guide.concepts],
+    ["questions", guide.questions],
+    ...Object.entries(guide.extras ?? {}),
+  ];
+  const tooLong = lists.find(([, items]) => items.length > MAX_SHARED_ITEMS);
+  return tooLong ? `"${tooLong[0]}" may have at most ${MAX_SHARED_ITEMS} items` : null;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function isExpired(row: SharedGuideRow, now: Date): boolean {
+  return row.expires_at !== null && row.expires_at <= now.toISOString();
+}
+
+export function createSharedGuide({
+  title,
+  guide,
+  expiresInDays,
+  now = new Date(),
+}: {
+  title: string;
+  guide: StudyGuide;
+  expiresInDays: ShareExpiryDays | null;
+  now?: Date;
+}): CreatedSharedGuide {
+  const database = getDb();
+  const deleteToken = randomBytes(24).toString("base64url");
+  const expiresAt =
+    expiresInDays === null
+      ? null
+      : new Date(now.getTime() + expiresInDays * DAY_MS).toISOString();
+
+  const insert = database.prepare(
+    `INSERT INTO shared_guides (id, title, guide, created_at, expires_at, delete_token_hash)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+
+  // Retry on the (very unlikely) chance of an ID collision
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const id = generateId();
+    try {
+      insert.run(
+        id,
+        title.trim().slice(0, MAX_SHARED_TITLE_LENGTH) || "Untitled guide",
+        JSON.stringify(guide),
+        now.toISOString(),
+        expiresAt,
+        hashToken(deleteToken)
+      );
+      return { id, deleteToken, expiresAt };
+    } catch (err) {
+      const isCollision =
+        err instanceof Error && "code" in err && err.code === "SQLITE_CONSTRAINT_PRIMARYKEY";
+      if (!isCollision) throw err;
+    }
+  }
+
+  throw new Error("Could not allocate a share ID");
+}
+
+/** The shared guide, or null if it never existed or has expired. */
+export function getSharedGuide(id: string, now = new Date()): SharedGuide | null {
+  const database = getDb();
+  const row = database
+    .prepare("SELECT * FROM shared_guides WHERE id = ?")
+    .get(id) as SharedGuideRow | undefined;
+  if (!row) return null;
+
+  // Expired rows are removed lazily the next time someone asks for them
+  if (isExpired(row, now)) {
+    database.prepare("DELETE FROM shared_guides WHERE id = ?").run(id);
+    return null;
+  }
+
+  return {
+    id: row.id,
+    title: row.title,
+    guide: JSON.parse(row.guide) as StudyGuide,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export function deleteSharedGuide(
+  id: string,
+  deleteToken: string
+): DeleteSharedGuideResult {
+  const database = getDb();
+  const row = database
+    .prepare("SELECT delete_token_hash FROM shared_guides WHERE id = ?")
+    .get(id) as Pick<SharedGuideRow, "delete_token_hash"> | undefined;
+  if (!row) return "not_found";
+
+  const expected = Buffer.from(row.delete_token_hash, "hex");
+  const given = Buffer.from(hashToken(deleteToken), "hex");
+  if (!timingSafeEqual(expected, given)) return "forbidden";
+
+  database.prepare("DELETE FROM shared_guides WHERE id = ?").run(id);
+  return "deleted";
+}
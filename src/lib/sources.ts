@@ -0,0 +1,108 @@
+// Study material made of several named sources (uploaded files, pasted
+// notes). Sources are combined into one text with a header line before each,
+// so the model can say which source a concept or question came from.
+
+import type { StudyGuide } from "./studyGuide";
+
+export type SourceText = { name: string; text: string };
+
+/** "queued" files wait for the one being read; files are read one at a time. */
+export type SourceStatus = "queued" | "reading" | "ready" | "error";
+
+/** Page-level progress while a file is being read; "ocr" pages are scans. */
+export type SourceProgress = {
+  stage: "text" | "ocr";
+  page: number;
+  pages: number;
+};
+
+/** An uploaded file in the source list, as tracked by the page. */
+export type SourceFile = SourceText & {
+  id: string;
+  size: number;
+  status: SourceStatus;
+  progress?: SourceProgress;
+  /** Pages (PDF) or slides (PowerPoint) in the file. */
+  pageCount?: number;
+  /** Number of pages that had to be OCR'd. */
+  ocrPages?: number;
+  /** Non-fatal extraction problems, e.g. skipped Word content. */
+  warnings?: string[];
+  error?: string;
+};
+
+export const PASTED_NOTES_SOURCE = "Pasted notes";
+
+const HEADER_PATTERN = /^=== Source: (.+?) ===$/gm;
+
+export function sourceHeader(name: string): string {
+  return `=== Source: ${name.replace(/\s+/g, " ").trim()} ===`;
+}
+
+export function combineSources(sources: SourceText[]): string {
+  return sources
+    .filter((s) => s.text.trim())
+    .map((s) => `${sourceHeader(s.name)}\n${s.text.trim()}`)
+    .join("\n\n");
+}
+
+/**
+ * Split combined material back into its sources. Returns an empty list when
+ * the text has no source headers; anything before the first header is
+ * treated as pasted notes.
+ */
+export function splitSources(text: string): SourceText[] {
+  const matches = Array.from(text.matchAll(HEADER_PATTERN));
+  if (matches.length === 0) return [];
+
+  const sources: SourceText[] = [];
+  const preamble = text.slice(0, matches[0].index).trim();
+  if (preamble) sources.push({ name: PASTED_NOTES_SOURCE, text: preamble });
+
+  matches.forEach((match, i) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = matches[i + 1]?.index ?? text.length;
+    sources.push({ name: match[1], text: text.slice(start, end).trim() });
+  });
+
+  return sources;
+}
+
+/** A short label for a set of sources: "notes.pdf" or "notes.pdf +2 more". */
+export function describeSources(names: string[]): string | null {
+  if (names.length === 0) return null;
+  return names.length === 1
+    ? names[0]
+    : `${names[0]} +${names.length - 1} more`;
+}
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Map the `source` tags the model wrote onto the known source names. Unknown
+ * tags are dropped; untagged items get `fallback` (the only source of a
+ * chunk) when there is one.
+ */
+export function normalizeSourceTags(
+  guide: StudyGuide,
+  names: string[],
+  fallback?: string
+): StudyGuide {
+  const known = new Map(names.map((name) => [normalizeName(name), name]));
+  const resolve = (source?: string) =>
+    (source && known.get(normalizeName(source))) || fallback;
+
+  const tag = <T extends { source?: string }>(item: T): T => {
+    const { source: raw, ...rest } = item;
+    const source = resolve(raw);
+    return (source ? { ...rest, source } : rest) as T;
+  };
+
+  return {
+    ...guide,
+    concepts: guide.concepts.map(tag),
+    questions: guide.questions.map(tag),
+  };
+}
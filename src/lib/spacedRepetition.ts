@@ -0,0 +1,78 @@
+// SM-2 spaced repetition scheduling (SuperMemo 2, as popularized by Anki).
+// Each review is graded 0–5; grades below 3 restart the card, higher grades
+// grow the interval by the card's ease factor.
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type CardSchedule = {
+  /** Ease factor, never below MIN_EASE. */
+  ease: number;
+  /** Days until the next review. */
+  interval: number;
+  /** Successful reviews in a row. */
+  repetitions: number;
+  /** ISO timestamp of the next review. */
+  due: string;
+  lastReviewed?: string;
+};
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date.getTime() + days * DAY_MS);
+  // Due at the start of the day so a card is ready whenever the student opens the app
+  next.setHours(0, 0, 0, 0);
+  return next;
+}
+
+export function newSchedule(now: Date = new Date()): CardSchedule {
+  return {
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: now.toISOString(),
+  };
+}
+
+export function review(
+  schedule: CardSchedule,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): CardSchedule {
+  const ease = Math.max(
+    MIN_EASE,
+    schedule.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = schedule.repetitions + 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(schedule.interval * schedule.ease);
+    }
+  }
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    due: addDays(now, interval).toISOString(),
+    lastReviewed: now.toISOString(),
+  };
+}
+
+export function isDue(schedule: CardSchedule, now: Date = new Date()): boolean {
+  return new Date(schedule.due).getTime() <= now.getTime();
+}
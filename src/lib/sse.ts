@@ -0,0 +1,67 @@
+// Minimal server-sent events helpers shared by streaming routes (encoding)
+// and the page (decoding a fetch response body).
+
+/** A decoded event; `data` is the parsed JSON, or the raw text if it isn't JSON. */
+export type ServerEvent = { event: string; data: unknown };
+
+const encoder = new TextEncoder();
+
+export function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function parseEventBlock(block: string): ServerEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return { event, data: dataLines.join("\n") };
+  }
+}
+
+/**
+ * Read a `text/event-stream` response body, calling `onEvent` for every
+ * complete event. `E` is the union of events the route sends; it is trusted,
+ * not checked. Resolves when the stream ends; rejects with an AbortError if
+ * the request is aborted.
+ */
+export async function readServerEvents<E extends ServerEvent = ServerEvent>(
+  res: Response,
+  onEvent: (event: E) => void
+): Promise<void> {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed as E);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  const trailing = parseEventBlock(buffer.trim());
+  if (trailing) onEvent(trailing as E);
+}
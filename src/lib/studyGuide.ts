@@ -0,0 +1,412 @@
+// Shared study guide schema used by the generation routes and the page.
+
+export type Concept = {
+  term: string;
+  def: string;
+  /** Name of the source file the concept came from, for multi-source material. */
+  source?: string;
+  /** Page the concept is explained on, for material with "[Page N]" markers. */
+  page?: number;
+  /** Passage of the material supporting the definition, copied word for word. */
+  quote?: string;
+  /** Set by the server: whether `quote` was found in the material. */
+  verified?: boolean;
+  /** Deeper explanation, added when the user expands the concept. */
+  explanation?: string;
+  /** Concrete examples, added along with `explanation`. */
+  examples?: string[];
+};
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+type QuestionBase = {
+  prompt: string;
+  explanation: string;
+  difficulty: Difficulty;
+  /** Term of the concept the question tests, matching `Concept.term`. */
+  concept?: string;
+  /** Name of the source file the question came from, for multi-source material. */
+  source?: string;
+  /** Passage of the material the question is based on, copied word for word. */
+  quote?: string;
+  /** Set by the server: whether `quote` was found in the material. */
+  verified?: boolean;
+};
+
+export type MultipleChoiceQuestion = QuestionBase & {
+  type: "multiple_choice";
+  options: string[];
+  answer_index: number;
+};
+
+export type TrueFalseQuestion = QuestionBase & {
+  type: "true_false";
+  answer: boolean;
+};
+
+export type ShortAnswerQuestion = QuestionBase & {
+  type: "short_answer";
+  model_answer: string;
+};
+
+export type PracticeQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | ShortAnswerQuestion;
+
+export type QuestionType = PracticeQuestion["type"];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  true_false: "True / False",
+  short_answer: "Short answer",
+};
+
+/** One entry of a preset's extra section, e.g. a timeline event: field → text. */
+export type ExtraItem = Record<string, string>;
+
+/** Preset-specific sections (timeline, vocabulary, ...) keyed by section key. */
+export type GuideExtras = Record<string, ExtraItem[]>;
+
+export type StudyGuide = {
+  summary: string;
+  detailed_summary: string;
+  concepts: Concept[];
+  questions: PracticeQuestion[];
+  /** Extra sections requested by the subject preset; see presets.ts. */
+  extras?: GuideExtras;
+};
+
+export type StudyGuideSection = keyof StudyGuide;
+
+export const STUDY_GUIDE_SECTIONS: StudyGuideSection[] = [
+  "summary",
+  "concepts",
+  "questions",
+  "detailed_summary",
+];
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export function isStudyGuideSection(key: string): key is StudyGuideSection {
+  return (STUDY_GUIDE_SECTIONS as string[]).includes(key);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isPageNumber(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function validateConcepts(value: unknown, errors: string[]): Concept[] {
+  if (!Array.isArray(value)) {
+    errors.push('"concepts" must be an array of { "term", "def" } objects');
+    return [];
+  }
+
+  return value.flatMap((item, i) => {
+    if (!isRecord(item)) {
+      errors.push(`concepts[${i}] must be an object with "term" and "def"`);
+      return [];
+    }
+    const before = errors.length;
+    if (!isNonEmptyString(item.term)) {
+      errors.push(`concepts[${i}].term must be a non-empty string`);
+    }
+    if (!isNonEmptyString(item.def)) {
+      errors.push(`concepts[${i}].def must be a non-empty string`);
+    }
+    if (item.source !== undefined && typeof item.source !== "string") {
+      errors.push(`concepts[${i}].source must be a string`);
+    }
+    if (item.page !== undefined && item.page !== null && !isPageNumber(item.page)) {
+      errors.push(`concepts[${i}].page must be a positive integer`);
+    }
+    if (item.quote !== undefined && typeof item.quote !== "string") {
+      errors.push(`concepts[${i}].quote must be a string`);
+    }
+    if (item.explanation !== undefined && typeof item.explanation !== "string") {
+      errors.push(`concepts[${i}].explanation must be a string`);
+    }
+    if (
+      item.examples !== undefined &&
+      !(Array.isArray(item.examples) && item.examples.every((e) => typeof e === "string"))
+    ) {
+      errors.push(`concepts[${i}].examples must be an array of strings`);
+    }
+    if (errors.length > before) return [];
+
+    const concept: Concept = {
+      term: (item.term as string).trim(),
+      def: (item.def as string).trim(),
+    };
+    if (isNonEmptyString(item.source)) concept.source = item.source.trim();
+    if (isPageNumber(item.page)) concept.page = item.page;
+    if (isNonEmptyString(item.quote)) concept.quote = item.quote.trim();
+    if (typeof item.verified === "boolean") concept.verified = item.verified;
+    if (isNonEmptyString(item.explanation)) concept.explanation = item.explanation.trim();
+    const examples = ((item.examples ?? []) as string[]).map((e) => e.trim()).filter(Boolean);
+    if (examples.length > 0) concept.examples = examples;
+    return [concept];
+  });
+}
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+function validateQuestion(
+  item: unknown,
+  path: string,
+  errors: string[]
+): PracticeQuestion | null {
+  if (!isRecord(item)) {
+    errors.push(`${path} must be a question object`);
+    return null;
+  }
+
+  const before = errors.length;
+
+  if (!isNonEmptyString(item.prompt)) {
+    errors.push(`${path}.prompt must be a non-empty string`);
+  }
+  if (!isNonEmptyString(item.explanation)) {
+    errors.push(`${path}.explanation must be a non-empty string`);
+  }
+  const difficulty =
+    typeof item.difficulty === "string" ? item.difficulty.toLowerCase() : "";
+  if (!(DIFFICULTIES as string[]).includes(difficulty)) {
+    errors.push(`${path}.difficulty must be one of ${DIFFICULTIES.join(", ")}`);
+  }
+
+  if (item.concept !== undefined && typeof item.concept !== "string") {
+    errors.push(`${path}.concept must be a string`);
+  }
+  if (item.source !== undefined && typeof item.source !== "string") {
+    errors.push(`${path}.source must be a string`);
+  }
+  if (item.quote !== undefined && typeof item.quote !== "string") {
+    errors.push(`${path}.quote must be a string`);
+  }
+
+  const base: QuestionBase = {
+    prompt: String(item.prompt ?? "").trim(),
+    explanation: String(item.explanation ?? "").trim(),
+    difficulty: difficulty as Difficulty,
+  };
+  if (isNonEmptyString(item.concept)) base.concept = item.concept.trim();
+  if (isNonEmptyString(item.source)) base.source = item.source.trim();
+  if (isNonEmptyString(item.quote)) base.quote = item.quote.trim();
+  if (typeof item.verified === "boolean") base.verified = item.verified;
+
+  switch (item.type) {
+    case "multiple_choice": {
+      const options = item.options;
+      if (
+        !Array.isArray(options) ||
+        options.length < MIN_OPTIONS ||
+        options.length > MAX_OPTIONS ||
+        !options.every(isNonEmptyString)
+      ) {
+        errors.push(
+          `${path}.options must be an array of ${MIN_OPTIONS}–${MAX_OPTIONS} non-empty strings`
+        );
+      } else if (
+        !Number.isInteger(item.answer_index) ||
+        (item.answer_index as number) < 0 ||
+        (item.answer_index as number) >= options.length
+      ) {
+        errors.push(
+          `${path}.answer_index must be an integer index into options (0–${options.length - 1})`
+        );
+      }
+      if (errors.length > before) return null;
+      return {
+        ...base,
+        type: "multiple_choice",
+        options: (options as string[]).map((o) => o.trim()),
+        answer_index: item.answer_index as number,
+      };
+    }
+
+    case "true_false":
+      if (typeof item.answer !== "boolean") {
+        errors.push(`${path}.answer must be true or false`);
+      }
+      if (errors.length > before) return null;
+      return { ...base, type: "true_false", answer: item.answer as boolean };
+
+    case "short_answer":
+      if (!isNonEmptyString(item.model_answer)) {
+        errors.push(`${path}.model_answer must be a non-empty string`);
+      }
+      if (errors.length > before) return null;
+      return {
+        ...base,
+        type: "short_answer",
+        model_answer: (item.model_answer as string).trim(),
+      };
+
+    default:
+      errors.push(
+        `${path}.type must be one of ${Object.keys(QUESTION_TYPE_LABELS).join(", ")}`
+      );
+      return null;
+  }
+}
+
+function validateQuestions(value: unknown, errors: string[]): PracticeQuestion[] {
+  if (!Array.isArray(value)) {
+    errors.push('"questions" must be an array of question objects');
+    return [];
+  }
+
+  return value.flatMap((item, i) => {
+    const question = validateQuestion(item, `questions[${i}]`, errors);
+    return question ? [question] : [];
+  });
+}
+
+function validateText(
+  value: unknown,
+  field: string,
+  errors: string[],
+  required: boolean
+): string {
+  if (typeof value !== "string") {
+    errors.push(`"${field}" must be a string`);
+    return "";
+  }
+  if (required && !value.trim()) {
+    errors.push(`"${field}" must not be empty`);
+  }
+  return value.trim();
+}
+
+/**
+ * Strictly check one section of a guide. Unknown keys never validate, so
+ * callers can pass streamed fields straight through.
+ */
+export function validateSection<K extends StudyGuideSection>(
+  key: K,
+  value: unknown
+): ValidationResult<StudyGuide[K]> {
+  const errors: string[] = [];
+  let normalized: unknown;
+
+  switch (key) {
+    case "summary":
+      normalized = validateText(value, "summary", errors, true);
+      break;
+    case "detailed_summary":
+      normalized = validateText(value, "detailed_summary", errors, false);
+      break;
+    case "concepts":
+      normalized = validateConcepts(value, errors);
+      break;
+    case "questions":
+      normalized = validateQuestions(value, errors);
+      break;
+    default:
+      errors.push(`Unknown section "${key}"`);
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: normalized as StudyGuide[K] };
+}
+
+const EXTRA_KEY_PATTERN = /^[a-z][a-z_]{0,39}$/;
+
+/**
+ * Loosely check stored extra sections: section keys in snake_case, each a
+ * list of flat objects with string values. Which fields an item must have is
+ * up to its preset (see `validatePresetGuide`).
+ */
+function validateExtras(value: unknown, errors: string[]): GuideExtras {
+  if (!isRecord(value)) {
+    errors.push('"extras" must be an object of sections');
+    return {};
+  }
+
+  const extras: GuideExtras = {};
+  for (const [key, items] of Object.entries(value)) {
+    if (!EXTRA_KEY_PATTERN.test(key) || !Array.isArray(items)) {
+      errors.push(`extras.${key} must be an array under a snake_case key`);
+      continue;
+    }
+    extras[key] = items.flatMap((item, i) => {
+      if (!isRecord(item) || !Object.values(item).every((v) => typeof v === "string")) {
+        errors.push(`extras.${key}[${i}] must be an object of strings`);
+        return [];
+      }
+      return [item as ExtraItem];
+    });
+  }
+  return extras;
+}
+
+/**
+ * Strictly check a parsed model response against the StudyGuide schema. On
+ * success the value is trimmed and stripped of unknown keys; on failure every
+ * problem is listed so it can be fed back to the model.
+ */
+export function validateStudyGuide(value: unknown): ValidationResult<StudyGuide> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Response must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const guide = {} as Record<StudyGuideSection, unknown>;
+
+  for (const key of STUDY_GUIDE_SECTIONS) {
+    const result = validateSection(key, value[key]);
+    if (result.ok) {
+      guide[key] = result.value;
+    } else {
+      errors.push(...result.errors);
+    }
+  }
+
+  const extras = value.extras === undefined ? undefined : validateExtras(value.extras, errors);
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: { ...(guide as StudyGuide), ...(extras ? { extras } : {}) },
+      };
+}
+
+/** Letter label for a multiple choice option: 0 → "A". */
+export function optionLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/** The correct answer of a question as display text. */
+export function describeAnswer(question: PracticeQuestion): string {
+  switch (question.type) {
+    case "multiple_choice":
+      return `${optionLabel(question.answer_index)}) ${question.options[question.answer_index]}`;
+    case "true_false":
+      return question.answer ? "True" : "False";
+    case "short_answer":
+      return question.model_answer;
+  }
+}
+
+/** Index of the concept whose term matches `term`, ignoring case; or -1. */
+export function findConceptIndex(concepts: Concept[], term?: string): number {
+  if (!term) return -1;
+  const wanted = term.trim().toLowerCase();
+  return concepts.findIndex((c) => c.term.trim().toLowerCase() === wanted);
+}